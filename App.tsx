@@ -1,195 +1,309 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { AudioUploader } from './components/AudioUploader';
-import { ResultDisplay } from './components/ResultDisplay';
+import { ResultDisplay, StreamingResultDisplay } from './components/ResultDisplay';
 import { Loader } from './components/Loader';
-import { analyzeVoiceTone } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { GenerationSettingsPanel } from './components/GenerationSettingsPanel';
+import { BatchAnalysis } from './components/BatchAnalysis';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PresetLibrary } from './components/PresetLibrary';
+import { AcousticMetrics } from './components/AcousticMetrics';
+import { ComparePanel } from './components/ComparePanel';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { TemplateComparison } from './components/TemplateComparison';
+import { SpeakerAnalysis } from './components/SpeakerAnalysis';
+import { ToneTimeline } from './components/ToneTimeline';
+import { RefinementPanel } from './components/RefinementPanel';
+import { DescriptionEditor } from './components/DescriptionEditor';
+import { ApiKeyPanel } from './components/ApiKeyPanel';
+import { useAnalysisHistory } from './hooks/useAnalysisHistory';
+import { useAudioRecorder } from './hooks/useAudioRecorder';
+import { useApiKeys } from './hooks/useApiKeys';
+import { usePresetLibrary } from './hooks/usePresetLibrary';
+import { usePromptTemplates } from './hooks/usePromptTemplates';
+import { createAnalysisProvider, getProviderConfigError, analyzeAudioFile, DEFAULT_PROVIDER_SETTINGS } from './services/analysisProvider';
+import type { ProviderSettings } from './services/analysisProvider';
+import { createTtsProvider, getTtsConfigError } from './services/ttsProvider';
+import { DEFAULT_GENERATION_SETTINGS, getGenerationSettingsError } from './services/generationSettings';
+import { isAbortError } from './services/analysisErrors';
+import { canDecodeWhole, checkAudioLimits } from './services/audioPreparation';
+import type { UploadProgress } from './services/geminiFileUpload';
+import { ANALYSIS_PROXY_URL } from './services/proxyProvider';
+import { renderTemplateInstructions } from './services/promptTemplates';
 import { playAudioFeedback } from './utils/audioFeedback';
-import { ErrorIcon, SparklesIcon, CheckIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from './components/Icons';
-
-const EXAMPLES = [
-  {
-    label: 'Warm & Friendly',
-    resultText: 'A medium-pitched female voice with a warm, friendly, and engaging tone. The pace is relaxed and conversational, with very clear articulation. The timbre is smooth and pleasant, conveying a sense of genuine sincerity and positivity.'
-  },
-  {
-    label: 'Authoritative & Clear',
-    resultText: 'A low-pitched male voice with a confident and authoritative tone. The pace is deliberate and measured, with precise articulation, emphasizing key points. The timbre is rich and resonant, projecting professionalism and expertise.'
-  },
-  {
-    label: 'Energetic & Upbeat',
-    resultText: 'A high-pitched female voice with an energetic and upbeat tone. The pace is fast and lively, with a dynamic range of inflection. The timbre is bright and crisp, conveying enthusiasm and excitement.'
-  }
-];
+import { extractAcousticFeatures } from './utils/acousticFeatures';
+import { trimAudioFile } from './utils/wavEncoder';
+import { t } from './i18n/messages';
+import { ErrorIcon, SparklesIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from './components/Icons';
+import type { AcousticFeatures, ExportedProfile, GenerationSettings, HistoryEntry, SpeakerProfile, TrimRange, VoicePreset, VoiceProfile } from './types';
 
 const isEnvKeySet = !!process.env.API_KEY;
 
+const QUICK_PRESET_COUNT = 5;
+
 export default function App() {
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [analysisResult, setAnalysisResult] = useState<string>('');
+  const [streamingText, setStreamingText] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<ExportedProfile | null>(null);
   const [error, setError] = useState<string>('');
-  const [apiKey, setApiKey] = useState<string>('');
-  const [isKeySaved, setIsKeySaved] = useState<boolean>(false);
-  const [apiKeyError, setApiKeyError] = useState<string>('');
+  const [retryStatus, setRetryStatus] = useState<string>('');
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [isAudioFeedbackEnabled, setIsAudioFeedbackEnabled] = useState<boolean>(() => {
     const savedPreference = localStorage.getItem('AUDIO_FEEDBACK_ENABLED');
     return savedPreference ? JSON.parse(savedPreference) : true;
   });
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => {
+    const savedSettings = localStorage.getItem('PROVIDER_SETTINGS');
+    return savedSettings ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(savedSettings) } : DEFAULT_PROVIDER_SETTINGS;
+  });
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(() => {
+    const savedSettings = localStorage.getItem('GENERATION_SETTINGS');
+    return savedSettings ? { ...DEFAULT_GENERATION_SETTINGS, ...JSON.parse(savedSettings) } : DEFAULT_GENERATION_SETTINGS;
+  });
+  const [mode, setMode] = useState<'analyze' | 'compare'>('analyze');
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchId, setBatchId] = useState<number>(0);
+  const [acousticFeatures, setAcousticFeatures] = useState<AcousticFeatures | null>(null);
+  const [trimRange, setTrimRange] = useState<TrimRange | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState<boolean>(false);
+  const [acousticError, setAcousticError] = useState<string>('');
+  const [isDecodable, setIsDecodable] = useState<boolean>(false);
+  const [playingSpeaker, setPlayingSpeaker] = useState<SpeakerProfile | null>(null);
+  const [includeAcoustics, setIncludeAcoustics] = useState<boolean>(() => {
+    const savedPreference = localStorage.getItem('INCLUDE_ACOUSTIC_FEATURES');
+    return savedPreference ? JSON.parse(savedPreference) : true;
+  });
+  const { entries: historyEntries, historyError, saveAnalysis, importProfiles, updateEntry, removeEntry } = useAnalysisHistory();
+  const promptTemplates = usePromptTemplates();
+  const presetLibrary = usePresetLibrary();
+  const apiKeys = useApiKeys();
+  const [outputLanguage, setOutputLanguage] = useState<string>(() => localStorage.getItem('OUTPUT_LANGUAGE') ?? '');
+  const instructions = useMemo(
+    () => renderTemplateInstructions(promptTemplates.activeTemplate, outputLanguage),
+    [promptTemplates.activeTemplate, outputLanguage]
+  );
+  // The quick picks under the Analyze button: the most recently changed presets, then the built-ins.
+  const quickPresets = useMemo(
+    () => [...presetLibrary.presets].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, QUICK_PRESET_COUNT),
+    [presetLibrary.presets]
+  );
 
-  const [isRecording, setIsRecording] = useState<boolean>(false);
-  const [audioURL, setAudioURL] = useState<string | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
 
   useEffect(() => {
-    if (!isEnvKeySet) {
-      const savedKey = localStorage.getItem('GEMINI_API_KEY');
-      if (savedKey) {
-        setApiKey(savedKey);
-        setIsKeySaved(true);
-      }
-    }
-  }, []);
+    setAcousticFeatures(null);
+    setAcousticError('');
+    setTrimRange(null);
+    setPlayingSpeaker(null);
+    setIsDecodable(false);
+    if (!audioFile) return;
 
-  const handleStopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-    }
-  };
+    let isCurrent = true;
+    setIsMeasuring(true);
+    // The limits only read the metadata; the clip is decoded whole (for measurements and the waveform) only when it is short enough.
+    checkAudioLimits(audioFile)
+      .then((duration) => {
+        if (!isCurrent) return;
+        if (!canDecodeWhole(audioFile, duration)) {
+          setAcousticError(t('app.error.tooLongToMeasure'));
+          return;
+        }
+        setIsDecodable(true);
+        return extractAcousticFeatures(audioFile).then(
+          (features) => {
+            if (isCurrent) setAcousticFeatures(features);
+          },
+          (err) => {
+            console.error('Acoustic feature extraction failed:', err);
+            if (isCurrent) setAcousticError(t('app.error.measurements'));
+          }
+        );
+      })
+      .catch((err) => {
+        if (isCurrent) setError(err instanceof Error ? err.message : t('app.error.unexpected'));
+      })
+      .finally(() => {
+        if (isCurrent) setIsMeasuring(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [audioFile]);
+
+  const finalApiKey = isEnvKeySet ? process.env.API_KEY! : apiKeys.activeKey?.apiKey ?? '';
+  const generationSettingsError = providerSettings.provider === 'mock'
+    ? ''
+    : getGenerationSettingsError(generationSettings, providerSettings.provider === 'gemini');
+  const providerConfigError = getProviderConfigError(providerSettings, finalApiKey) || generationSettingsError;
+  const provider = useMemo(
+    () => (providerConfigError ? null : createAnalysisProvider(providerSettings, finalApiKey, generationSettings)),
+    [providerConfigError, providerSettings, finalApiKey, generationSettings]
+  );
+  const ttsConfigError = getTtsConfigError(providerSettings, finalApiKey);
+  const ttsProvider = useMemo(
+    () => (ttsConfigError ? null : createTtsProvider(providerSettings, finalApiKey)),
+    [ttsConfigError, providerSettings, finalApiKey]
+  );
+
+  const handleRecorderError = useCallback((message: string) => {
+    setError(message);
+    if (isAudioFeedbackEnabled) playAudioFeedback('error');
+  }, [isAudioFeedbackEnabled]);
+
+  const recorder = useAudioRecorder({ onRecordingComplete: setAudioFile, onError: handleRecorderError });
+  const { stopRecording, clearRecording } = recorder;
 
   const handleFileSelect = useCallback((file: File | null) => {
     setAudioFile(file);
-    setAnalysisResult('');
+    setAnalysisResult(null);
     setError('');
     // Clear recording state if a file is selected
-    setAudioURL(null);
-    if (mediaRecorderRef.current && isRecording) {
-        handleStopRecording();
-    }
-  }, [isRecording]);
+    clearRecording();
+    stopRecording();
+  }, [clearRecording, stopRecording]);
 
-  const handleStartRecording = async () => {
-    setError('');
-    setAnalysisResult('');
-    setAudioFile(null);
-    setAudioURL(null);
-
-    if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        mediaRecorderRef.current = new MediaRecorder(stream);
-        audioChunksRef.current = [];
-
-        mediaRecorderRef.current.ondataavailable = (event) => {
-          audioChunksRef.current.push(event.data);
-        };
-
-        mediaRecorderRef.current.onstop = () => {
-          const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
-          const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
-          const audioUrl = URL.createObjectURL(audioBlob);
-          const recordedFile = new File([audioBlob], `recording.${mimeType.split('/')[1]}`, { type: mimeType });
-          
-          setAudioURL(audioUrl);
-          setAudioFile(recordedFile);
-          
-          stream.getTracks().forEach(track => track.stop());
-        };
-
-        mediaRecorderRef.current.start();
-        setIsRecording(true);
-      } catch (err) {
-        console.error("Error accessing microphone:", err);
-        setError("Microphone access was denied. Please allow microphone access in your browser's settings to use this feature.");
-        if (isAudioFeedbackEnabled) playAudioFeedback('error');
-      }
-    } else {
-      setError("Audio recording is not supported in this browser.");
-      if (isAudioFeedbackEnabled) playAudioFeedback('error');
-    }
-  };
+  const handleFilesSelect = useCallback((files: File[]) => {
+    handleFileSelect(null);
+    setBatchFiles(files);
+    setBatchId(prev => prev + 1);
+  }, [handleFileSelect]);
 
-  const handleClearRecording = () => {
-    setAudioURL(null);
-    setAudioFile(null);
-  };
+  const handleBatchComplete = useCallback((failedCount: number) => {
+    if (isAudioFeedbackEnabled) playAudioFeedback(failedCount > 0 ? 'error' : 'success');
+  }, [isAudioFeedbackEnabled]);
 
-  const validateApiKey = (key: string): boolean => {
-    const trimmedKey = key.trim();
-    if (!trimmedKey) {
-      setApiKeyError('API key cannot be empty.');
-      return false;
-    }
-    if (!trimmedKey.startsWith('AIza')) {
-      setApiKeyError('Invalid API key format. It should typically start with "AIza".');
-      return false;
-    }
-    setApiKeyError('');
-    return true;
+  // Saves results produced outside the main analyze flow (batch and compare) to history.
+  const handleBackgroundResult = useCallback((file: File, profile: VoiceProfile) => {
+    if (provider) saveAnalysis(file, profile, provider);
+  }, [provider, saveAnalysis]);
+
+  const playFeedback = useCallback((type: 'success' | 'error') => {
+    if (isAudioFeedbackEnabled) playAudioFeedback(type);
+  }, [isAudioFeedbackEnabled]);
+
+  const handleHistoryOpen = (entry: HistoryEntry) => {
+    setMode('analyze');
+    // Imported entries have no audio; show their profile on its own.
+    handleFileSelect(entry.audio ? new File([entry.audio], entry.fileName, { type: entry.audio.type }) : null);
+    const { id: _id, audio: _audio, ...result } = entry;
+    setAnalysisResult(result);
   };
-  
-  const handleApiKeySave = () => {
-    if (validateApiKey(apiKey)) {
-      localStorage.setItem('GEMINI_API_KEY', apiKey);
-      setIsKeySaved(true);
-      setApiKeyError('');
-    }
+
+  // Refined and hand-edited versions replace the shown profile but keep the result's metadata.
+  const handleReplaceProfile = useCallback((profile: VoiceProfile) => {
+    setAnalysisResult((prev) => prev && { ...prev, profile });
+  }, []);
+
+  const handleBatchClear = () => {
+    setBatchFiles([]);
   };
 
-  const handleApiKeyEdit = () => {
-    setIsKeySaved(false);
-    setApiKeyError('');
+  const handleStartRecording = () => {
+    setError('');
+    setAnalysisResult(null);
+    setAudioFile(null);
+    recorder.startRecording();
   };
 
-  const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setApiKey(e.target.value);
-    if (apiKeyError) {
-      setApiKeyError('');
-    }
+  const handleClearRecording = () => {
+    recorder.clearRecording();
+    setAudioFile(null);
   };
 
+  // Only the selected region is sent, so measurements must be taken from that region too.
+  const prepareAnalysisInput = useCallback(async (file: File) => {
+    const trimmed = trimRange ? await trimAudioFile(file, trimRange.start, trimRange.end) : file;
+    const features = !includeAcoustics
+      ? null
+      : trimRange
+        ? await extractAcousticFeatures(trimmed).catch(() => null)
+        : acousticFeatures;
+    return { file: trimmed, acousticFeatures: features, offsetSeconds: trimRange?.start ?? 0 };
+  }, [trimRange, includeAcoustics, acousticFeatures]);
+
   const handleAnalyze = async () => {
     if (!audioFile) {
-      setError('Please select or record an audio file first.');
+      setError(t('app.error.noAudio'));
       if (isAudioFeedbackEnabled) playAudioFeedback('error');
       return;
     }
 
-    const finalApiKey = isEnvKeySet ? process.env.API_KEY! : apiKey;
-    if (!finalApiKey) {
-      setError('Please enter and save your Gemini API key before analyzing.');
+    if (!provider) {
+      setError(providerConfigError);
       if (isAudioFeedbackEnabled) playAudioFeedback('error');
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+
     setIsLoading(true);
-    setAnalysisResult('');
+    setAnalysisResult(null);
+    setStreamingText('');
     setError('');
 
     try {
-      const { base64, mimeType } = await fileToBase64(audioFile);
-      if (!mimeType.startsWith('audio/')) {
-        throw new Error('Invalid file type. Please upload an audio file.');
-      }
-      const result = await analyzeVoiceTone(base64, mimeType, finalApiKey);
-      setAnalysisResult(result);
+      const { file: fileToAnalyze, acousticFeatures: features } = await prepareAnalysisInput(audioFile);
+      signal.throwIfAborted();
+      const result = await analyzeAudioFile(provider, fileToAnalyze, {
+        acousticFeatures: features,
+        instructions,
+        signal,
+        onPartialText: setStreamingText,
+        onRetry: ({ attempt, maxAttempts, delayMs, error: retryError }) => {
+          const reason = t(retryError.kind === 'rate-limit' ? 'app.retry.rateLimited' : retryError.kind === 'network' ? 'app.retry.network' : 'app.retry.unavailable');
+          setRetryStatus(t('app.retry.status', { reason, seconds: Math.ceil(delayMs / 1000), attempt, maxAttempts }));
+        },
+        onUploadProgress: setUploadProgress,
+      });
+      setAnalysisResult({
+        name: fileToAnalyze.name.replace(/\.[^.]+$/, ''),
+        fileName: fileToAnalyze.name,
+        createdAt: Date.now(),
+        durationSeconds: features?.durationSeconds ?? null,
+        providerId: provider.id,
+        model: provider.model,
+        generation: provider.generation,
+        profile: result,
+      });
+      saveAnalysis(fileToAnalyze, result, provider);
       if (isAudioFeedbackEnabled) playAudioFeedback('success');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.';
+      if (isAbortError(err)) {
+        // A cancel is not a failure; just return to the idle state.
+        return;
+      }
+      const errorMessage = err instanceof Error ? err.message : t('app.error.unexpected');
       setError(errorMessage);
       if (isAudioFeedbackEnabled) playAudioFeedback('error');
       // Detailed logging is handled in the service layer.
     } finally {
+      abortControllerRef.current = null;
+      setStreamingText('');
+      setRetryStatus('');
+      setUploadProgress(null);
       setIsLoading(false);
     }
   };
 
-  const handleExampleClick = (resultText: string) => {
+  // Synthesized previews are analyzed like any other clip but are not saved to history.
+  const handleAnalyzePreview = useCallback(async (file: File, signal: AbortSignal): Promise<VoiceProfile> => {
+    if (!provider) throw new Error(providerConfigError);
+    const features = includeAcoustics ? await extractAcousticFeatures(file).catch(() => null) : null;
+    return analyzeAudioFile(provider, file, { acousticFeatures: features, instructions, signal });
+  }, [provider, providerConfigError, includeAcoustics, instructions]);
+
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handlePresetOpen = (preset: VoicePreset) => {
+    setMode('analyze');
     handleFileSelect(null);
-    setAnalysisResult(resultText);
+    setAnalysisResult({ name: preset.name, tags: preset.tags, profile: preset.profile });
     if (isAudioFeedbackEnabled) playAudioFeedback('success');
   };
 
@@ -201,7 +315,31 @@ export default function App() {
     });
   };
 
-  const canAnalyze = audioFile && !isLoading && (isEnvKeySet || isKeySaved);
+  const handleIncludeAcousticsChange = (include: boolean) => {
+    setIncludeAcoustics(include);
+    localStorage.setItem('INCLUDE_ACOUSTIC_FEATURES', JSON.stringify(include));
+  };
+
+  const handleOutputLanguageChange = (language: string) => {
+    setOutputLanguage(language);
+    localStorage.setItem('OUTPUT_LANGUAGE', language);
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    localStorage.setItem('PROVIDER_SETTINGS', JSON.stringify(settings));
+  };
+
+  const handleGenerationSettingsChange = (settings: GenerationSettings) => {
+    setGenerationSettings(settings);
+    localStorage.setItem('GENERATION_SETTINGS', JSON.stringify(settings));
+  };
+
+  const isGeminiProvider = providerSettings.provider === 'gemini';
+  // Measuring runs alongside; an analysis started before it finishes goes without measurements.
+  const canAnalyze = audioFile && !isLoading && !!provider;
+  // Per-clip panels are keyed on this so their results are dropped when the clip changes.
+  const audioFileKey = audioFile ? `${audioFile.name}:${audioFile.size}:${audioFile.lastModified}` : '';
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 font-sans flex flex-col items-center p-4 sm:p-6 lg:p-8">
@@ -212,123 +350,309 @@ export default function App() {
           <button
             onClick={toggleAudioFeedback}
             className="p-2 rounded-full bg-slate-800/50 border border-slate-700 text-slate-400 hover:text-sky-400 hover:border-sky-500 transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500"
-            aria-label={isAudioFeedbackEnabled ? "Disable audio feedback" : "Enable audio feedback"}
+            aria-label={t(isAudioFeedbackEnabled ? 'app.audioFeedback.disable' : 'app.audioFeedback.enable')}
           >
             {isAudioFeedbackEnabled ? <SpeakerWaveIcon className="w-5 h-5" aria-hidden="true" /> : <SpeakerXMarkIcon className="w-5 h-5" aria-hidden="true" />}
           </button>
         </div>
 
-        {!isEnvKeySet && (
-          <div className="mt-8 bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
-            <h2 className="text-lg font-semibold text-sky-400 mb-2">Configure API Key</h2>
-            {isKeySaved ? (
-              <div className="flex items-center justify-between">
-                <p className="text-green-400 flex items-center gap-2">
-                  <CheckIcon className="w-5 h-5" aria-hidden="true" /> API Key is saved.
-                </p>
-                <button onClick={handleApiKeyEdit} className="text-sm text-sky-400 hover:underline font-semibold">
-                  Edit Key
-                </button>
-              </div>
-            ) : (
-              <>
-                <p className="text-sm text-slate-400 mb-4">
-                  Please enter your Gemini API key. It will be stored in your browser's local storage.
-                  You can get a key from{' '}
-                  <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-sky-400 underline hover:text-sky-300">
-                    Google AI Studio
-                  </a>.
-                </p>
-                <div className="flex flex-col sm:flex-row gap-2">
-                  <input
-                    type="password"
-                    value={apiKey}
-                    onChange={handleApiKeyChange}
-                    placeholder="Enter your API Key"
-                    className="flex-grow bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                    aria-label="Gemini API Key"
-                  />
-                  <button
-                    onClick={handleApiKeySave}
-                    disabled={!apiKey.trim()}
-                    className="bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
-                  >
-                    Save Key
-                  </button>
-                </div>
-                {apiKeyError && (
-                  <p className="text-red-400 text-sm mt-2">{apiKeyError}</p>
-                )}
-              </>
-            )}
-          </div>
+        <ProviderSettingsPanel
+          settings={providerSettings}
+          onChange={handleProviderSettingsChange}
+          disabled={isLoading}
+        />
+
+        {providerSettings.provider !== 'mock' && (
+          <GenerationSettingsPanel
+            settings={generationSettings}
+            onChange={handleGenerationSettingsChange}
+            isGemini={isGeminiProvider}
+            error={generationSettingsError}
+            disabled={isLoading}
+          />
         )}
 
-        <main className="mt-8">
-          <div className="bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
-            <h2 className="text-lg font-semibold text-sky-400 mb-1">1. Provide Your Audio</h2>
-            <p className="text-sm text-slate-400 mb-4">Upload a file (MP3, WAV, etc.) or record audio directly. A 30-60 second clip is recommended.</p>
-            <AudioUploader
-              file={audioFile}
-              onFileSelect={handleFileSelect}
-              disabled={isLoading}
-              isRecording={isRecording}
-              audioURL={audioURL}
-              onStartRecording={handleStartRecording}
-              onStopRecording={handleStopRecording}
-              onClearRecording={handleClearRecording}
-            />
-          </div>
+        <PromptTemplatePanel
+          templates={promptTemplates.templates}
+          activeTemplate={promptTemplates.activeTemplate}
+          onSelect={promptTemplates.setActiveTemplateId}
+          onDuplicate={promptTemplates.duplicateTemplate}
+          onSaveVersion={promptTemplates.saveVersion}
+          onRename={promptTemplates.renameTemplate}
+          onDelete={promptTemplates.deleteTemplate}
+          outputLanguage={outputLanguage}
+          onOutputLanguageChange={handleOutputLanguageChange}
+          disabled={isLoading}
+        />
+
+        {isGeminiProvider && !isEnvKeySet && !ANALYSIS_PROXY_URL && (
+          <ApiKeyPanel
+            profiles={apiKeys.profiles}
+            activeKey={apiKeys.activeKey}
+            legacyKey={apiKeys.legacyKey}
+            lastProfileId={apiKeys.lastProfileId}
+            onSaveProfile={apiKeys.saveProfile}
+            onUnlockProfile={apiKeys.unlockProfile}
+            onUseSessionKey={apiKeys.setSessionKey}
+            onLock={apiKeys.lock}
+            onForgetProfile={apiKeys.forgetProfile}
+            onForgetLegacyKey={apiKeys.forgetLegacyKey}
+          />
+        )}
 
-          <div className="text-center my-6">
+        <div className="mt-8 flex justify-center gap-2" role="tablist">
+          {(['analyze', 'compare'] as const).map((tab) => (
             <button
-              onClick={handleAnalyze}
-              disabled={!canAnalyze}
-              className="inline-flex items-center gap-2 bg-sky-500 text-white font-bold py-3 px-8 rounded-full shadow-lg hover:bg-sky-600 focus:outline-none focus:ring-4 focus:ring-sky-500/50 transition-all duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:shadow-none"
+              key={tab}
+              onClick={() => setMode(tab)}
+              role="tab"
+              aria-selected={mode === tab}
+              className={`px-5 py-2 rounded-full text-sm font-semibold border transition-colors ${
+                mode === tab ? 'bg-sky-500 border-sky-500 text-white' : 'border-slate-600 text-slate-400 hover:border-sky-500 hover:text-sky-300'
+              }`}
             >
-              {isLoading ? (
-                <>
-                  <Loader aria-hidden="true" />
-                  Analyzing...
-                </>
-              ) : (
-                <>
-                  <SparklesIcon className="w-5 h-5" aria-hidden="true" />
-                  Analyze Voice Tone
-                </>
-              )}
+              {t(tab === 'analyze' ? 'app.mode.analyze' : 'app.mode.compare')}
             </button>
-          </div>
-          
-          <div className="my-8 text-center">
-            <p className="text-slate-400 mb-3 text-sm">Or try an example:</p>
-            <div className="flex flex-wrap justify-center gap-3">
-              {EXAMPLES.map((example) => (
-                <button
-                  key={example.label}
-                  onClick={() => handleExampleClick(example.resultText)}
+          ))}
+        </div>
+
+        <main className="mt-8">
+          {mode === 'analyze' ? (
+            <>
+              <div className="bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+                <h2 className="text-lg font-semibold text-sky-400 mb-1">{t('app.audio.title')}</h2>
+                <p className="text-sm text-slate-400 mb-4">{t('app.audio.hint')}</p>
+                <AudioUploader
+                  file={audioFile}
+                  onFileSelect={handleFileSelect}
+                  onFilesSelect={handleFilesSelect}
                   disabled={isLoading}
-                  className="px-4 py-1.5 bg-slate-700/50 text-sky-300 text-sm font-medium rounded-full border border-slate-600 hover:bg-slate-700 hover:border-sky-500 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  isRecording={recorder.isRecording}
+                  audioURL={recorder.audioURL}
+                  onStartRecording={handleStartRecording}
+                  onStopRecording={stopRecording}
+                  onClearRecording={handleClearRecording}
+                  analyser={recorder.analyser}
+                  elapsedSeconds={recorder.elapsedSeconds}
+                  maxDurationSeconds={recorder.maxDurationSeconds}
+                  onMaxDurationChange={recorder.setMaxDurationSeconds}
+                  inputDevices={recorder.inputDevices}
+                  selectedDeviceId={recorder.deviceId}
+                  onDeviceChange={recorder.selectDevice}
+                  onTrimChange={isDecodable ? setTrimRange : undefined}
+                  playback={playingSpeaker}
+                  onClosePlayback={() => setPlayingSpeaker(null)}
+                />
+              </div>
+
+              {audioFile && (
+                <AcousticMetrics
+                  features={acousticFeatures}
+                  isMeasuring={isMeasuring}
+                  error={acousticError}
+                  includeInPrompt={includeAcoustics}
+                  onIncludeInPromptChange={handleIncludeAcousticsChange}
+                />
+              )}
+
+              {audioFile && (
+                <TemplateComparison
+                  templates={promptTemplates.templates}
+                  activeTemplate={promptTemplates.activeTemplate}
+                  outputLanguage={outputLanguage}
+                  provider={provider}
+                  providerConfigError={providerConfigError}
+                  prepareInput={() => prepareAnalysisInput(audioFile)}
+                  onFeedback={playFeedback}
+                />
+              )}
+
+              {audioFile && (
+                <SpeakerAnalysis
+                  key={audioFileKey}
+                  provider={provider}
+                  providerConfigError={providerConfigError}
+                  instructions={instructions}
+                  prepareInput={() => prepareAnalysisInput(audioFile)}
+                  playingLabel={playingSpeaker?.label ?? null}
+                  onPlaySpeaker={setPlayingSpeaker}
+                  onSelectResult={setAnalysisResult}
+                  onFeedback={playFeedback}
+                />
+              )}
+
+              {audioFile && (
+                <ToneTimeline
+                  key={audioFileKey}
+                  provider={provider}
+                  providerConfigError={providerConfigError}
+                  includeAcoustics={includeAcoustics}
+                  instructions={instructions}
+                  prepareInput={() => prepareAnalysisInput(audioFile)}
+                  onFeedback={playFeedback}
+                />
+              )}
+
+              {batchFiles.length > 0 && (
+                <BatchAnalysis
+                  key={batchId}
+                  files={batchFiles}
+                  provider={provider}
+                  includeAcoustics={includeAcoustics}
+                  instructions={instructions}
+                  onSelectResult={setAnalysisResult}
+                  onResult={handleBackgroundResult}
+                  onComplete={handleBatchComplete}
+                  onClear={handleBatchClear}
+                />
+              )}
+
+              <div className="text-center my-6">
+                <button
+                  onClick={handleAnalyze}
+                  disabled={!canAnalyze}
+                  className="inline-flex items-center gap-2 bg-sky-500 text-white font-bold py-3 px-8 rounded-full shadow-lg hover:bg-sky-600 focus:outline-none focus:ring-4 focus:ring-sky-500/50 transition-all duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:shadow-none"
                 >
-                  {example.label}
+                  {isLoading ? (
+                    <>
+                      <Loader aria-hidden="true" />
+                      {t('app.analyzing')}
+                    </>
+                  ) : (
+                    <>
+                      <SparklesIcon className="w-5 h-5" aria-hidden="true" />
+                      {t('app.analyze')}
+                    </>
+                  )}
                 </button>
-              ))}
-            </div>
-          </div>
-
-          {error && (
-            <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative flex items-start gap-3" role="alert">
-              <ErrorIcon className="w-5 h-5 mt-0.5 flex-shrink-0" aria-hidden="true" />
-              <div>
-                <strong className="font-bold">Error!</strong>
-                <span className="block sm:inline ml-2">{error}</span>
+                {isLoading && (
+                  <button
+                    onClick={handleCancelAnalysis}
+                    className="ml-3 py-3 px-6 rounded-full border border-slate-600 text-slate-300 font-semibold hover:border-red-500 hover:text-red-300 transition-colors focus:outline-none focus:ring-4 focus:ring-red-500/30"
+                  >
+                    {t('app.cancel')}
+                  </button>
+                )}
+              </div>
+          
+              <div className="my-8 text-center">
+                <p className="text-slate-400 mb-3 text-sm">{t('app.presets.quickPick')}</p>
+                <div className="flex flex-wrap justify-center gap-3">
+                  {quickPresets.map((preset) => (
+                    <button
+                      key={preset.id}
+                      onClick={() => handlePresetOpen(preset)}
+                      disabled={isLoading}
+                      className="px-4 py-1.5 bg-slate-700/50 text-sky-300 text-sm font-medium rounded-full border border-slate-600 hover:bg-slate-700 hover:border-sky-500 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {preset.name}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
 
-          {analysisResult && !isLoading && (
-            <ResultDisplay resultText={analysisResult} />
+              {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative flex items-start gap-3" role="alert">
+                  <ErrorIcon className="w-5 h-5 mt-0.5 flex-shrink-0" aria-hidden="true" />
+                  <div>
+                    <strong className="font-bold">{t('app.error.title')}</strong>
+                    <span className="block sm:inline ml-2">{error}</span>
+                  </div>
+                </div>
+              )}
+
+              {isLoading && uploadProgress && uploadProgress.loaded < uploadProgress.total && (
+                <div className="mb-4">
+                  <p className="text-sm text-slate-400 text-center mb-1">
+                    {t('app.upload.progress', { loaded: (uploadProgress.loaded / 1048576).toFixed(1), total: (uploadProgress.total / 1048576).toFixed(1) })}
+                  </p>
+                  <div
+                    className="h-2 rounded-full bg-slate-700 overflow-hidden"
+                    role="progressbar"
+                    aria-label={t('app.upload.progressLabel')}
+                    aria-valuemin={0}
+                    aria-valuemax={uploadProgress.total}
+                    aria-valuenow={uploadProgress.loaded}
+                  >
+                    <div className="h-full bg-sky-500 transition-[width]" style={{ width: `${(100 * uploadProgress.loaded) / uploadProgress.total}%` }} />
+                  </div>
+                </div>
+              )}
+
+              {isLoading && retryStatus && (
+                <p className="text-yellow-400 text-sm text-center mb-4" role="status">{retryStatus}</p>
+              )}
+
+              {isLoading && streamingText && (
+                <StreamingResultDisplay partialText={streamingText} />
+              )}
+
+              {analysisResult && !isLoading && (
+                <ResultDisplay
+                  result={analysisResult}
+                  acousticFeatures={acousticFeatures}
+                  originalAudio={audioFile}
+                  ttsProvider={ttsProvider}
+                  ttsConfigError={ttsConfigError}
+                  onAnalyzePreview={provider ? handleAnalyzePreview : undefined}
+                />
+              )}
+
+              {analysisResult && !isLoading && (
+                <DescriptionEditor
+                  key={`${analysisResult.name}:${analysisResult.createdAt}`}
+                  provider={provider}
+                  providerConfigError={providerConfigError}
+                  profile={analysisResult.profile}
+                  instructions={instructions}
+                  onApply={handleReplaceProfile}
+                  onFeedback={playFeedback}
+                />
+              )}
+
+              {analysisResult && !isLoading && (
+                <RefinementPanel
+                  key={`${analysisResult.name}:${analysisResult.createdAt}`}
+                  provider={provider}
+                  providerConfigError={providerConfigError}
+                  profile={analysisResult.profile}
+                  prepareInput={audioFile ? () => prepareAnalysisInput(audioFile) : null}
+                  instructions={instructions}
+                  onSelectVersion={handleReplaceProfile}
+                  onFeedback={playFeedback}
+                />
+              )}
+            </>
+          ) : (
+            <ComparePanel
+              provider={provider}
+              providerConfigError={providerConfigError}
+              includeAcoustics={includeAcoustics}
+              instructions={instructions}
+              onResult={handleBackgroundResult}
+              onFeedback={playFeedback}
+            />
           )}
+
+          <PresetLibrary
+            presets={presetLibrary.presets}
+            currentResult={mode === 'analyze' && !isLoading ? analysisResult : null}
+            onOpen={handlePresetOpen}
+            onSave={presetLibrary.savePreset}
+            onUpdate={presetLibrary.updatePreset}
+            onDuplicate={presetLibrary.duplicatePreset}
+            onDelete={presetLibrary.deletePreset}
+            onImport={presetLibrary.importPresets}
+          />
+
+          <HistoryPanel
+            entries={historyEntries}
+            error={historyError}
+            onOpen={handleHistoryOpen}
+            onUpdate={updateEntry}
+            onDelete={removeEntry}
+            onImport={importProfiles}
+          />
         </main>
       </div>
     </div>
@@ -0,0 +1,94 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ExportedProfile } from '../types';
+import { AnalysisError, withRetry } from '../services/analysisErrors';
+import type { RetryOptions } from '../services/analysisErrors';
+import type { AnalysisAudio, AnalysisProvider } from '../services/analysisProvider';
+import { AUDIO_MIME_TYPES, INLINE_AUDIO_LIMIT_BYTES, MAX_AUDIO_BYTES } from '../services/audioPreparation';
+
+export interface FileResult {
+  filePath: string;
+  /** Set when the analysis succeeded. */
+  result?: ExportedProfile;
+  error?: string;
+}
+
+/**
+ * Reads a clip from disk as the provider expects it: inline, or uploaded
+ * first when it is over the inline limit and the provider supports that.
+ * Unlike in the browser, clips are sent as they are, without downmixing.
+ */
+const readAudio = async (provider: AnalysisProvider, filePath: string, retry: RetryOptions): Promise<AnalysisAudio> => {
+  const mimeType = AUDIO_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    throw new AnalysisError('invalid-audio', { detail: `Unsupported file type "${path.extname(filePath) || path.basename(filePath)}".` });
+  }
+  const data = await readFile(filePath);
+  if (data.length > MAX_AUDIO_BYTES) {
+    throw new AnalysisError('payload-too-large', { detail: 'The limit is 2 GB.' });
+  }
+  const { uploadAudio } = provider;
+  if (uploadAudio && data.length > INLINE_AUDIO_LIMIT_BYTES) {
+    const file = new File([data], path.basename(filePath), { type: mimeType });
+    return withRetry(() => uploadAudio(file, { signal: retry.signal }), retry);
+  }
+  return { kind: 'inline', base64: data.toString('base64'), mimeType };
+};
+
+/**
+ * Analyzes one file with retries, resolving with a result or an error rather than throwing.
+ */
+const analyzeFile = async (provider: AnalysisProvider, filePath: string, instructions: string | undefined, retry: RetryOptions): Promise<FileResult> => {
+  try {
+    const audio = await readAudio(provider, filePath, retry);
+    const profile = await withRetry(() => provider.analyzeVoiceTone(audio, { instructions, signal: retry.signal }), retry);
+    return {
+      filePath,
+      result: {
+        name: path.basename(filePath).replace(/\.[^.]+$/, ''),
+        fileName: filePath,
+        createdAt: Date.now(),
+        durationSeconds: null,
+        providerId: provider.id,
+        model: provider.model,
+        generation: provider.generation,
+        profile,
+      },
+    };
+  } catch (error) {
+    if (retry.signal?.aborted) throw error;
+    return { filePath, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Analyzes files with up to `concurrency` requests in flight, reporting each
+ * result as it completes. Results are returned in input order.
+ */
+export const analyzeFiles = async (
+  provider: AnalysisProvider,
+  filePaths: string[],
+  options: {
+    instructions?: string;
+    concurrency: number;
+    signal: AbortSignal;
+    onRetry?: (filePath: string, info: Parameters<NonNullable<RetryOptions['onRetry']>>[0]) => void;
+    onResult?: (result: FileResult, index: number) => void;
+  }
+): Promise<FileResult[]> => {
+  const results: FileResult[] = new Array(filePaths.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < filePaths.length) {
+      const index = next++;
+      const filePath = filePaths[index];
+      results[index] = await analyzeFile(provider, filePath, options.instructions, {
+        signal: options.signal,
+        onRetry: (info) => options.onRetry?.(filePath, info),
+      });
+      options.onResult?.(results[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, filePaths.length) }, worker));
+  return results;
+};
@@ -0,0 +1,92 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { AUDIO_MIME_TYPES } from '../services/audioPreparation';
+
+const GLOB_CHARS = /[*?{]/;
+
+const escapeRegExp = (text: string): string => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob to a regular expression over forward-slash paths.
+ * Supports `*`, `?`, `**` (any number of directories) and `{a,b}` alternatives.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Only files with these extensions are picked up when a directory is given.
+const isAudioPath = (filePath: string): boolean => path.extname(filePath).toLowerCase() in AUDIO_MIME_TYPES;
+
+/**
+ * Lists files under a directory as forward-slash paths prefixed with `dir`.
+ */
+const listFiles = async (dir: string, recursive: boolean): Promise<string[]> => {
+  const entries = await readdir(dir || '.', { recursive, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.posix.join(dir, path.relative(dir || '.', path.join(entry.parentPath, entry.name)).split(path.sep).join('/')));
+};
+
+/**
+ * Expands one command-line argument: a file, a directory (every audio file
+ * inside it), or a glob. Shells usually expand globs themselves; this covers
+ * quoted patterns and shells that don't.
+ * @throws {Error} If nothing matches.
+ */
+const expandInput = async (input: string): Promise<string[]> => {
+  const pattern = path.posix.normalize(input.split(path.sep).join('/'));
+  if (!GLOB_CHARS.test(pattern)) {
+    const info = await stat(pattern).catch(() => null);
+    if (!info) throw new Error(`${input}: no such file or directory.`);
+    if (!info.isDirectory()) return [pattern];
+    const files = (await listFiles(pattern, true)).filter(isAudioPath);
+    if (files.length === 0) throw new Error(`${input}: the directory contains no audio files.`);
+    return files;
+  }
+
+  // Walk from the deepest directory that has no glob characters in it.
+  const segments = pattern.split('/');
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || (pattern.startsWith('/') ? '/' : '');
+  const recursive = pattern.includes('**') || firstGlob < segments.length - 1;
+  const matcher = globToRegExp(pattern);
+  const files = await listFiles(base, recursive).catch(() => []);
+  const matches = files.filter((file) => matcher.test(file));
+  if (matches.length === 0) throw new Error(`${input}: no files match.`);
+  return matches;
+};
+
+/**
+ * Expands the command-line inputs into a sorted, de-duplicated list of files.
+ * @throws {Error} If any input matches nothing.
+ */
+export const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+  for (const input of inputs) {
+    for (const file of (await expandInput(input)).sort()) files.add(file);
+  }
+  return Array.from(files);
+};
@@ -0,0 +1,231 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { GenerationSettings, PromptTemplate, PromptTemplateVersion } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from '../services/analysisProvider';
+import type { AnalysisProvider, AnalysisProviderId } from '../services/analysisProvider';
+import { createGeminiProvider } from '../services/geminiService';
+import { DEFAULT_GENERATION_SETTINGS, getGenerationSettingsError } from '../services/generationSettings';
+import { createMockProvider } from '../services/mockProvider';
+import { createOpenAiCompatibleProvider } from '../services/openAiCompatibleProvider';
+import { DEFAULT_PROMPT_TEMPLATE, DEFAULT_TEMPLATE_VARIABLES, SPOKEN_LANGUAGE, findUnknownPlaceholders, renderTemplateInstructions, renderWithOutputLanguage } from '../services/promptTemplates';
+import { createProxyProvider } from '../services/proxyProvider';
+import { analyzeFiles } from './analyzeFiles';
+import type { FileResult } from './analyzeFiles';
+import { expandInputs } from './glob';
+import { OUTPUT_FORMATS, formatResults } from './output';
+import type { OutputFormat } from './output';
+
+const EXIT_OK = 0;
+const EXIT_ANALYSIS_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+const MAX_CONCURRENCY = 10;
+
+const PROVIDERS: AnalysisProviderId[] = ['gemini', 'mock', 'openai-compatible'];
+
+const USAGE = `Usage: node dist-cli/index.js analyze <files...> [options]
+
+Analyzes audio files and prints a voice profile for each. Files can be paths,
+directories (every audio file inside) or quoted globs such as "renders/**/*.{wav,mp3}".
+
+Options:
+  -f, --format <text|json|csv>  Output format (default: text). JSON can be imported into the app.
+  -o, --output <file>           Write the output to a file instead of stdout.
+  -m, --model <id>              Gemini model (default: ${DEFAULT_GENERATION_SETTINGS.model}).
+  -t, --template <file>         Prompt template: a template JSON (as saved by the app) or a text body.
+  -l, --language <name>         Language for labels and TTS prompts, or "${SPOKEN_LANGUAGE}" to match each clip.
+      --temperature <n>         Sampling temperature, 0-2.
+      --seed <n>                Sampling seed.
+  -c, --concurrency <n>         Files analyzed at once, 1-${MAX_CONCURRENCY} (default: 2).
+  -p, --provider <id>           ${PROVIDERS.join(', ')} (default: gemini).
+      --proxy <url>             Run Gemini through a backend proxy, e.g. https://voice.example.com/api.
+      --base-url <url>          OpenAI-compatible endpoint (default: ${DEFAULT_PROVIDER_SETTINGS.openAiBaseUrl}).
+      --endpoint-model <name>   Model name on the OpenAI-compatible endpoint.
+  -q, --quiet                   Don't report progress on stderr.
+  -h, --help                    Show this help.
+
+Environment: GEMINI_API_KEY (read from .env.local too), OPENAI_API_KEY for OpenAI-compatible endpoints.
+
+Exit codes: 0 all files analyzed, 1 at least one failed, 2 invalid usage, 130 interrupted.`;
+
+class UsageError extends Error {}
+
+const parseNumber = (value: string | undefined, name: string): number | null => {
+  if (value === undefined) return null;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new UsageError(`--${name} must be a number, got "${value}".`);
+  return number;
+};
+
+/**
+ * Reads a prompt template file: a template as saved by the app, a single
+ * version (`{ body, variables }`), or a plain-text body using the default variables.
+ * `language` overrides the template's language when set.
+ */
+const loadInstructions = async (templatePath: string, language: string): Promise<string> => {
+  const text = await readFile(templatePath, 'utf8').catch(() => {
+    throw new UsageError(`${templatePath}: could not read the template.`);
+  });
+  if (path.extname(templatePath).toLowerCase() !== '.json') {
+    return renderWithOutputLanguage(text, DEFAULT_TEMPLATE_VARIABLES, language);
+  }
+  let parsed: Partial<PromptTemplate & PromptTemplateVersion>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new UsageError(`${templatePath}: the template is not valid JSON.`);
+  }
+  if (Array.isArray(parsed.versions) && parsed.versions.length > 0) {
+    return renderTemplateInstructions(parsed as PromptTemplate, language);
+  }
+  if (typeof parsed.body === 'string') {
+    return renderWithOutputLanguage(parsed.body, { ...DEFAULT_TEMPLATE_VARIABLES, ...parsed.variables }, language);
+  }
+  throw new UsageError(`${templatePath}: expected a prompt template with "versions", or a "body".`);
+};
+
+const createProvider = (id: AnalysisProviderId, generation: GenerationSettings, values: { proxy?: string; 'base-url'?: string; 'endpoint-model'?: string }): AnalysisProvider => {
+  switch (id) {
+    case 'gemini': {
+      if (values.proxy) return createProxyProvider(values.proxy, generation);
+      const apiKey = process.env.GEMINI_API_KEY?.trim();
+      if (!apiKey) throw new UsageError('Set GEMINI_API_KEY (or use --proxy) to analyze with Gemini.');
+      return createGeminiProvider(apiKey, generation);
+    }
+    case 'openai-compatible':
+      if (!values['endpoint-model']) throw new UsageError('--endpoint-model is required with --provider openai-compatible.');
+      return createOpenAiCompatibleProvider({
+        baseUrl: values['base-url'] ?? DEFAULT_PROVIDER_SETTINGS.openAiBaseUrl,
+        model: values['endpoint-model'],
+        apiKey: process.env.OPENAI_API_KEY ?? '',
+        generation,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'text' },
+      output: { type: 'string', short: 'o' },
+      model: { type: 'string', short: 'm' },
+      template: { type: 'string', short: 't' },
+      language: { type: 'string', short: 'l', default: '' },
+      temperature: { type: 'string' },
+      seed: { type: 'string' },
+      concurrency: { type: 'string', short: 'c', default: '2' },
+      provider: { type: 'string', short: 'p', default: 'gemini' },
+      proxy: { type: 'string' },
+      'base-url': { type: 'string' },
+      'endpoint-model': { type: 'string' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (command !== 'analyze') throw new UsageError(`Unknown command "${command}".`);
+  if (inputs.length === 0) throw new UsageError('Give at least one file, directory or glob to analyze.');
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) throw new UsageError(`--format must be one of ${OUTPUT_FORMATS.join(', ')}.`);
+  const providerId = values.provider as AnalysisProviderId;
+  if (!PROVIDERS.includes(providerId)) throw new UsageError(`--provider must be one of ${PROVIDERS.join(', ')}.`);
+  const concurrency = parseNumber(values.concurrency, 'concurrency')!;
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw new UsageError(`--concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}.`);
+  }
+
+  const generation: GenerationSettings = {
+    ...DEFAULT_GENERATION_SETTINGS,
+    model: values.model ?? DEFAULT_GENERATION_SETTINGS.model,
+    temperature: parseNumber(values.temperature, 'temperature'),
+    seed: parseNumber(values.seed, 'seed'),
+  };
+  const generationError = getGenerationSettingsError(generation, providerId === 'gemini');
+  if (generationError) throw new UsageError(generationError);
+
+  let instructions: string | undefined;
+  if (values.template) {
+    instructions = await loadInstructions(values.template, values.language);
+  } else if (values.language) {
+    instructions = renderTemplateInstructions(DEFAULT_PROMPT_TEMPLATE, values.language);
+  }
+  const unknownPlaceholders = instructions ? findUnknownPlaceholders(instructions) : [];
+  if (unknownPlaceholders.length > 0 && !values.quiet) {
+    console.error(`Warning: the template has unknown placeholders: ${unknownPlaceholders.map((name) => `{{${name}}}`).join(', ')}.`);
+  }
+
+  const provider = createProvider(providerId, generation, values);
+  const files = await expandInputs(inputs).catch((error: Error) => {
+    throw new UsageError(error.message);
+  });
+
+  const abortController = new AbortController();
+  process.once('SIGINT', () => abortController.abort());
+  const log = (message: string) => {
+    if (!values.quiet) console.error(message);
+  };
+
+  let completed = 0;
+  let results: FileResult[];
+  try {
+    results = await analyzeFiles(provider, files, {
+      instructions,
+      concurrency,
+      signal: abortController.signal,
+      onRetry: (filePath, { attempt, maxAttempts, delayMs, error }) =>
+        log(`${filePath}: ${error.kind} error, retrying in ${Math.ceil(delayMs / 1000)} s (attempt ${attempt + 1} of ${maxAttempts})`),
+      onResult: ({ filePath, error }) => {
+        completed++;
+        log(`[${completed}/${files.length}] ${filePath}: ${error ? `failed: ${error}` : 'done'}`);
+      },
+    });
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      console.error('Interrupted.');
+      return EXIT_INTERRUPTED;
+    }
+    throw error;
+  }
+
+  const output = formatResults(results, format);
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+
+  const failed = results.filter(({ error }) => error !== undefined).length;
+  if (failed > 0) log(`${failed} of ${files.length} file${files.length === 1 ? '' : 's'} failed.`);
+  return failed > 0 ? EXIT_ANALYSIS_FAILED : EXIT_OK;
+};
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // The file is optional; the environment may already hold the key.
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    // parseArgs reports unknown and malformed options with a TypeError.
+    const isUsage = error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS');
+    console.error(error instanceof Error ? error.message : error);
+    if (isUsage) console.error('Run with --help for usage.');
+    process.exitCode = isUsage ? EXIT_USAGE : EXIT_ANALYSIS_FAILED;
+  }
+);
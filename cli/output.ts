@@ -0,0 +1,39 @@
+import { profilesToCsv, profilesToJson } from '../utils/exportUtils';
+import { VOICE_DIMENSIONS, describeSpokenLanguage } from '../utils/voiceProfile';
+import type { FileResult } from './analyzeFiles';
+
+export type OutputFormat = 'text' | 'json' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'csv'];
+
+const formatText = (results: FileResult[]): string =>
+  results.map(({ filePath, result, error }) => {
+    if (!result) return `${filePath}\n  Error: ${error}`;
+    const { profile } = result;
+    const width = Math.max(...VOICE_DIMENSIONS.map(({ title }) => title.length));
+    return [
+      filePath,
+      ...(profile.language ? [`  ${'Language'.padEnd(width)}  ${describeSpokenLanguage(profile.language)}`] : []),
+      ...VOICE_DIMENSIONS.map(({ key, title }) => {
+        const { label, scale } = profile.dimensions[key];
+        return `  ${title.padEnd(width)}  ${label} (${scale}/10)`;
+      }),
+      `  ${'Confidence'.padEnd(width)}  ${Math.round(profile.confidence * 100)}%`,
+      `  TTS prompt: ${profile.ttsPrompt}`,
+    ].join('\n');
+  }).join('\n\n');
+
+/**
+ * Renders the results. JSON is the app's import format, so failed files are
+ * left out of it (they are reported on stderr); CSV keeps them as error rows.
+ */
+export const formatResults = (results: FileResult[], format: OutputFormat): string => {
+  switch (format) {
+    case 'text':
+      return formatText(results);
+    case 'json':
+      return profilesToJson(results.flatMap(({ result }) => (result ? [result] : [])));
+    case 'csv':
+      return profilesToCsv(results.map(({ filePath, result, error }) => result ?? { name: filePath, fileName: filePath, error }));
+  }
+};
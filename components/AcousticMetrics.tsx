@@ -0,0 +1,58 @@
+import React from 'react';
+import { Loader } from './Loader';
+import type { AcousticFeatures } from '../types';
+
+interface AcousticMetricsProps {
+  features: AcousticFeatures | null;
+  isMeasuring: boolean;
+  error: string;
+  includeInPrompt: boolean;
+  onIncludeInPromptChange: (include: boolean) => void;
+}
+
+const Metric: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-900 rounded-lg p-3">
+    <p className="text-xs text-slate-500 uppercase tracking-wide">{label}</p>
+    <p className="text-slate-200 font-semibold mt-1">{value}</p>
+    {hint && <p className="text-xs text-slate-500 mt-0.5">{hint}</p>}
+  </div>
+);
+
+const orDash = (value: number | null, format: (value: number) => string): string =>
+  value === null ? '—' : format(value);
+
+export const AcousticMetrics: React.FC<AcousticMetricsProps> = ({ features, isMeasuring, error, includeInPrompt, onIncludeInPromptChange }) => (
+  <div className="mt-6 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <h2 className="text-lg font-semibold text-sky-400">Measured Acoustics</h2>
+      <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={includeInPrompt}
+          onChange={(e) => onIncludeInPromptChange(e.target.checked)}
+          className="accent-sky-500"
+        />
+        Include in analysis prompt
+      </label>
+    </div>
+
+    {isMeasuring && (
+      <p className="flex items-center text-sm text-slate-400"><Loader aria-hidden="true" />Measuring audio...</p>
+    )}
+    {!isMeasuring && error && <p className="text-sm text-red-400">{error}</p>}
+    {!isMeasuring && features && (
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <Metric label="Mean pitch (F0)" value={orDash(features.f0MeanHz, (v) => `${v.toFixed(0)} Hz`)} />
+        <Metric
+          label="Pitch range"
+          value={features.f0MinHz === null || features.f0MaxHz === null ? '—' : `${features.f0MinHz.toFixed(0)}–${features.f0MaxHz.toFixed(0)} Hz`}
+          hint="5th–95th percentile"
+        />
+        <Metric label="Speaking rate" value={orDash(features.speakingRate, (v) => `${v.toFixed(1)} syl/s`)} hint="Estimated" />
+        <Metric label="Pause ratio" value={`${(features.pauseRatio * 100).toFixed(0)}%`} hint="Pauses ≥ 250 ms" />
+        <Metric label="Loudness" value={`${features.rmsDb.toFixed(1)} dBFS`} hint="RMS of speech" />
+        <Metric label="Spectral centroid" value={orDash(features.spectralCentroidHz, (v) => `${v.toFixed(0)} Hz`)} hint="Brightness" />
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,338 @@
+import React, { useState } from 'react';
+import { Loader } from './Loader';
+import { CheckIcon } from './Icons';
+import { listGeminiModels } from '../services/geminiService';
+import { MIN_PASSPHRASE_LENGTH } from '../services/apiKeyVault';
+import type { ApiKeyProfile } from '../services/apiKeyVault';
+import type { ActiveApiKey } from '../hooks/useApiKeys';
+
+interface ApiKeyPanelProps {
+  profiles: ApiKeyProfile[];
+  activeKey: ActiveApiKey | null;
+  /** An unencrypted key saved by an older version, if one is still in storage. */
+  legacyKey: string | null;
+  lastProfileId: string | null;
+  onSaveProfile: (name: string, apiKey: string, passphrase: string) => Promise<void>;
+  onUnlockProfile: (id: string, passphrase: string) => Promise<void>;
+  onUseSessionKey: (apiKey: string) => void;
+  onLock: () => void;
+  onForgetProfile: (id: string) => void;
+  onForgetLegacyKey: () => void;
+}
+
+const PROFILE_NAME_SUGGESTIONS = ['Personal', 'Team', 'Project'];
+
+const inputClassName = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50';
+const primaryButtonClassName = 'inline-flex items-center justify-center gap-2 bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors';
+
+const describeModels = (models: string[]): string =>
+  models.length === 0
+    ? 'The key works, but it has no models that can generate content.'
+    : `The key works: ${models.length} model${models.length === 1 ? '' : 's'} available, including ${models.slice(0, 3).join(', ')}.`;
+
+const errorMessage = (err: unknown): string => (err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+
+/**
+ * Adds, unlocks and forgets Gemini API keys. Saved keys are encrypted with a
+ * passphrase; session keys are only held in memory.
+ */
+export const ApiKeyPanel: React.FC<ApiKeyPanelProps> = ({
+  profiles,
+  activeKey,
+  legacyKey,
+  lastProfileId,
+  onSaveProfile,
+  onUnlockProfile,
+  onUseSessionKey,
+  onLock,
+  onForgetProfile,
+  onForgetLegacyKey,
+}) => {
+  const [unlockId, setUnlockId] = useState<string>(() => (profiles.some(({ id }) => id === lastProfileId) ? lastProfileId! : profiles[0]?.id ?? ''));
+  const [unlockPassphrase, setUnlockPassphrase] = useState<string>('');
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [draftKey, setDraftKey] = useState<string>(legacyKey ?? '');
+  const [storage, setStorage] = useState<'encrypted' | 'session'>('encrypted');
+  const [profileName, setProfileName] = useState<string>(PROFILE_NAME_SUGGESTIONS[0]);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const activeProfile = profiles.find(({ id }) => id === activeKey?.profileId);
+  // With no saved profiles there is nothing to unlock, so the add form is always open.
+  const showAddForm = isAdding || profiles.length === 0;
+  const selectedUnlockId = profiles.some(({ id }) => id === unlockId) ? unlockId : profiles[0]?.id ?? '';
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    setStatus('');
+    try {
+      await task();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    await onUnlockProfile(selectedUnlockId, unlockPassphrase);
+    setUnlockPassphrase('');
+  });
+
+  const handleAdd = () => {
+    const apiKey = draftKey.trim();
+    if (storage === 'encrypted') {
+      if (!profileName.trim()) {
+        setError('Give the profile a name.');
+        return;
+      }
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('The passphrases do not match.');
+        return;
+      }
+    }
+    run(async () => {
+      // Only keys that actually work are kept.
+      const models = await listGeminiModels(apiKey);
+      if (storage === 'encrypted') {
+        await onSaveProfile(profileName.trim(), apiKey, passphrase);
+      } else {
+        onUseSessionKey(apiKey);
+      }
+      setDraftKey('');
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setIsAdding(false);
+      setStatus(describeModels(models));
+    });
+  };
+
+  const handleCheck = () => run(async () => {
+    if (activeKey) setStatus(describeModels(await listGeminiModels(activeKey.apiKey)));
+  });
+
+  const handleForgetActive = () => {
+    if (!activeKey) return;
+    if (activeKey.source === 'profile' && activeProfile) {
+      if (!window.confirm(`Delete the key profile "${activeProfile.name}" from this browser?`)) return;
+      onForgetProfile(activeProfile.id);
+    } else if (activeKey.source === 'legacy') {
+      onForgetLegacyKey();
+    } else {
+      onLock();
+    }
+    setStatus('');
+  };
+
+  const handleForgetSelected = () => {
+    const profile = profiles.find(({ id }) => id === selectedUnlockId);
+    if (profile && window.confirm(`Delete the key profile "${profile.name}" from this browser?`)) {
+      onForgetProfile(profile.id);
+    }
+  };
+
+  const activeLabel = !activeKey
+    ? ''
+    : activeKey.source === 'profile'
+      ? `Using "${activeProfile?.name ?? 'key profile'}", unlocked until you lock it or reload the page.`
+      : activeKey.source === 'session'
+        ? 'Using a session-only key. It is kept in memory and forgotten when you reload or close the page.'
+        : 'Using the key saved by an earlier version.';
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-2">Configure API Key</h2>
+
+      {legacyKey && (
+        <p className="text-sm text-yellow-400 mb-4" role="status">
+          A key saved by an earlier version is stored unencrypted in this browser. Save it as an encrypted profile, or{' '}
+          <button onClick={onForgetLegacyKey} className="underline hover:text-yellow-300 font-semibold">forget it</button>.
+        </p>
+      )}
+
+      {activeKey ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-green-400 flex items-center gap-2 text-sm">
+            <CheckIcon className="w-5 h-5 flex-shrink-0" aria-hidden="true" /> {activeLabel}
+          </p>
+          <div className="flex gap-3 text-sm">
+            <button onClick={handleCheck} disabled={isBusy} className="text-sky-400 hover:underline font-semibold disabled:opacity-50">
+              Check key
+            </button>
+            {activeKey.source === 'legacy' ? (
+              <button
+                onClick={() => {
+                  setDraftKey(activeKey.apiKey);
+                  setIsAdding(true);
+                  onLock();
+                }}
+                className="text-sky-400 hover:underline font-semibold"
+              >
+                Encrypt it
+              </button>
+            ) : (
+              <button onClick={onLock} className="text-sky-400 hover:underline font-semibold">
+                {activeKey.source === 'profile' ? 'Lock' : 'Switch key'}
+              </button>
+            )}
+            <button onClick={handleForgetActive} className="text-slate-400 hover:text-red-300 hover:underline">
+              Forget key
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {profiles.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm text-slate-400 mb-2">Enter the passphrase to unlock a saved key.</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {profiles.length > 1 && (
+                  <select
+                    value={selectedUnlockId}
+                    onChange={(e) => setUnlockId(e.target.value)}
+                    disabled={isBusy}
+                    className="bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                    aria-label="Key profile"
+                  >
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={(e) => setUnlockPassphrase(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && unlockPassphrase) handleUnlock();
+                  }}
+                  disabled={isBusy}
+                  placeholder={profiles.length === 1 ? `Passphrase for "${profiles[0].name}"` : 'Passphrase'}
+                  className={`flex-grow ${inputClassName}`}
+                  aria-label="Passphrase"
+                />
+                <button onClick={handleUnlock} disabled={isBusy || !unlockPassphrase} className={primaryButtonClassName}>
+                  {isBusy && !showAddForm && <Loader aria-hidden="true" />}
+                  Unlock
+                </button>
+              </div>
+              <div className="flex gap-3 mt-2 text-sm">
+                <button onClick={handleForgetSelected} disabled={isBusy} className="text-slate-400 hover:text-red-300 hover:underline disabled:opacity-50">
+                  Forget this profile
+                </button>
+                {!showAddForm && (
+                  <button onClick={() => setIsAdding(true)} className="text-sky-400 hover:underline font-semibold">
+                    Add another key
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {showAddForm && (
+            <div className={profiles.length > 0 ? 'pt-4 border-t border-slate-700' : ''}>
+              <p className="text-sm text-slate-400 mb-4">
+                Enter a Gemini API key from{' '}
+                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-sky-400 underline hover:text-sky-300">
+                  Google AI Studio
+                </a>. It is checked against the API before it is used.
+              </p>
+              <input
+                type="password"
+                value={draftKey}
+                onChange={(e) => setDraftKey(e.target.value)}
+                disabled={isBusy}
+                placeholder="Enter your API Key"
+                className={`mb-3 ${inputClassName}`}
+                aria-label="Gemini API Key"
+              />
+
+              <fieldset className="flex flex-wrap gap-4 mb-3 text-sm text-slate-300">
+                <legend className="sr-only">Where to keep the key</legend>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={storage === 'encrypted'} onChange={() => setStorage('encrypted')} disabled={isBusy} />
+                  Save encrypted with a passphrase
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={storage === 'session'} onChange={() => setStorage('session')} disabled={isBusy} />
+                  This session only (never stored)
+                </label>
+              </fieldset>
+
+              {storage === 'encrypted' && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-1" htmlFor="key-profile-name">Profile name</label>
+                    <input
+                      id="key-profile-name"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      disabled={isBusy}
+                      list="key-profile-names"
+                      className={inputClassName}
+                    />
+                    <datalist id="key-profile-names">
+                      {PROFILE_NAME_SUGGESTIONS.map((name) => <option key={name} value={name} />)}
+                    </datalist>
+                  </div>
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-1" htmlFor="key-passphrase">Passphrase</label>
+                    <input
+                      id="key-passphrase"
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      disabled={isBusy}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-1" htmlFor="key-passphrase-confirm">Confirm passphrase</label>
+                    <input
+                      id="key-passphrase-confirm"
+                      type="password"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      disabled={isBusy}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <p className="sm:col-span-3 text-xs text-slate-500">
+                    The passphrase is never stored and cannot be recovered. If you lose it, forget the profile and add the key again.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button onClick={handleAdd} disabled={isBusy || !draftKey.trim()} className={primaryButtonClassName}>
+                  {isBusy && <Loader aria-hidden="true" />}
+                  {isBusy ? 'Checking key...' : storage === 'encrypted' ? 'Check & save' : 'Check & use'}
+                </button>
+                {profiles.length > 0 && (
+                  <button
+                    onClick={() => setIsAdding(false)}
+                    disabled={isBusy}
+                    className="py-2 px-4 rounded-md border border-slate-600 text-slate-300 font-semibold hover:border-sky-500 transition-colors disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {status && <p className="text-sm text-slate-400 mt-3" role="status">{status}</p>}
+      {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+    </div>
+  );
+};
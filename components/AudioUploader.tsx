@@ -1,15 +1,34 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { UploadIcon, MusicIcon, MicrophoneIcon, StopIcon } from './Icons';
+import { WaveformTrimmer } from './WaveformTrimmer';
+import { RecordingMonitor } from './RecordingMonitor';
+import { SegmentPlayer } from './SegmentPlayer';
+import type { SpeakerSegment, TrimRange } from '../types';
+import { t } from '../i18n/messages';
 
 interface AudioUploaderProps {
   file: File | null;
   onFileSelect: (file: File | null) => void;
+  /** Enables multi-file selection; when omitted only the first file is used. */
+  onFilesSelect?: (files: File[]) => void;
   disabled: boolean;
   isRecording: boolean;
   audioURL: string | null;
   onStartRecording: () => void;
   onStopRecording: () => void;
   onClearRecording: () => void;
+  analyser: AnalyserNode | null;
+  elapsedSeconds: number;
+  maxDurationSeconds: number;
+  onMaxDurationChange: (seconds: number) => void;
+  inputDevices: MediaDeviceInfo[];
+  selectedDeviceId: string;
+  onDeviceChange: (deviceId: string) => void;
+  /** Enables the waveform trimmer for the selected clip. */
+  onTrimChange?: (range: TrimRange | null) => void;
+  /** Segments of the clip to offer for playback, such as one speaker's turns. */
+  playback?: { label: string; segments: SpeakerSegment[] } | null;
+  onClosePlayback?: () => void;
 }
 
 const TabButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
@@ -30,12 +49,23 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
 export const AudioUploader: React.FC<AudioUploaderProps> = ({
   file,
   onFileSelect,
+  onFilesSelect,
   disabled,
   isRecording,
   audioURL,
   onStartRecording,
   onStopRecording,
   onClearRecording,
+  analyser,
+  elapsedSeconds,
+  maxDurationSeconds,
+  onMaxDurationChange,
+  inputDevices,
+  selectedDeviceId,
+  onDeviceChange,
+  onTrimChange,
+  playback,
+  onClosePlayback,
 }) => {
   const [activeTab, setActiveTab] = useState<'upload' | 'record'>('upload');
   const [isDragging, setIsDragging] = useState(false);
@@ -44,16 +74,19 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
   const fileName = file?.name ?? null;
 
   const handleFileChange = useCallback((files: FileList | null) => {
-    if (files && files.length > 0) {
+    if (files && files.length > 1 && onFilesSelect) {
+      onFilesSelect(Array.from(files));
+      setStatusMessage(t('uploader.status.batch', { count: files.length }));
+    } else if (files && files.length > 0) {
       onFileSelect(files[0]);
-      setStatusMessage(`File selected: ${files[0].name}`);
+      setStatusMessage(t('uploader.status.selected', { name: files[0].name }));
     } else {
       if (file) {
-        setStatusMessage('File removed.');
+        setStatusMessage(t('uploader.status.removed'));
       }
       onFileSelect(null);
     }
-  }, [onFileSelect, file]);
+  }, [onFileSelect, onFilesSelect, file]);
 
   const onDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -100,8 +133,8 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
   return (
     <>
       <div className="flex border-b border-slate-700" role="tablist">
-        <TabButton active={activeTab === 'upload'} onClick={() => handleTabChange('upload')}>Upload File</TabButton>
-        <TabButton active={activeTab === 'record'} onClick={() => handleTabChange('record')}>Record Audio</TabButton>
+        <TabButton active={activeTab === 'upload'} onClick={() => handleTabChange('upload')}>{t('uploader.tab.upload')}</TabButton>
+        <TabButton active={activeTab === 'record'} onClick={() => handleTabChange('record')}>{t('uploader.tab.record')}</TabButton>
       </div>
 
       <div className="pt-4">
@@ -120,6 +153,7 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
               ref={fileInputRef}
               type="file"
               accept="audio/*"
+              multiple={!!onFilesSelect}
               className="hidden"
               onChange={(e) => handleFileChange(e.target.files)}
               disabled={disabled}
@@ -129,21 +163,27 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
                   <MusicIcon className="w-12 h-12 text-green-400" aria-hidden="true" />
                   <p className="text-slate-300 font-medium">{fileName}</p>
                   <button onClick={() => handleFileChange(null)} className="text-sm text-sky-400 hover:underline">
-                      Choose a different file
+                      {t('uploader.chooseDifferent')}
                   </button>
+                  {file && onTrimChange && (
+                    <div className="w-full">
+                      <WaveformTrimmer file={file} onSelectionChange={onTrimChange} disabled={disabled} />
+                    </div>
+                  )}
               </div>
             ) : (
               <div className="flex flex-col items-center gap-4">
                 <UploadIcon className="w-12 h-12 text-slate-500" aria-hidden="true" />
                 <p className="text-slate-400">
                   <button onClick={onButtonClick} disabled={disabled} className="font-semibold text-sky-400 hover:text-sky-500 focus:outline-none focus:underline">
-                    Click to upload
+                    {t('uploader.clickToUpload')}
                   </button>
-                  {' '}or drag and drop
+                  {' '}{t('uploader.orDragAndDrop')}
                 </p>
                 <div className="text-xs text-slate-500 text-center">
-                  <p>Supported formats: MP3, WAV, M4A, OGG, FLAC.</p>
-                  <p>For best results, use a 30-60 second audio clip.</p>
+                  <p>{t('uploader.formats')}</p>
+                  <p>{t('uploader.lengthHint')}</p>
+                  {onFilesSelect && <p>{t('uploader.batchHint')}</p>}
                 </div>
               </div>
             )}
@@ -153,10 +193,42 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
         {activeTab === 'record' && (
           <div role="tabpanel" className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-slate-600 rounded-lg">
             {!isRecording && !audioURL && (
+              <div className="flex flex-col items-center gap-6">
                 <button onClick={onStartRecording} disabled={disabled} className="flex flex-col items-center gap-4 text-slate-400 hover:text-sky-400 transition-colors">
                   <MicrophoneIcon className="w-12 h-12" />
-                  <span className="font-semibold">Start Recording</span>
+                  <span className="font-semibold">{t('uploader.startRecording')}</span>
                 </button>
+                <div className="flex flex-col sm:flex-row gap-3 text-sm">
+                  <label className="flex items-center gap-2 text-slate-400">
+                    {t('uploader.microphone')}
+                    <select
+                      value={selectedDeviceId}
+                      onChange={(e) => onDeviceChange(e.target.value)}
+                      disabled={disabled}
+                      className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 max-w-[14rem]"
+                    >
+                      <option value="">{t('uploader.systemDefault')}</option>
+                      {inputDevices.filter((device) => device.deviceId && device.deviceId !== 'default').map((device, index) => (
+                        <option key={device.deviceId} value={device.deviceId}>
+                          {device.label || t('uploader.numberedMicrophone', { number: index + 1 })}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-400">
+                    {t('uploader.maxLength')}
+                    <input
+                      type="number"
+                      min={5}
+                      max={600}
+                      value={maxDurationSeconds}
+                      onChange={(e) => onMaxDurationChange(Math.min(600, Math.max(5, Number(e.target.value) || 5)))}
+                      disabled={disabled}
+                      className="w-20 bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+                    />
+                  </label>
+                </div>
+              </div>
             )}
 
             {isRecording && (
@@ -166,26 +238,36 @@ export const AudioUploader: React.FC<AudioUploaderProps> = ({
                           <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
                           <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
                       </span>
-                      Recording...
+                      {t('uploader.recording')}
                   </div>
+                  <RecordingMonitor analyser={analyser} elapsedSeconds={elapsedSeconds} maxDurationSeconds={maxDurationSeconds} />
                   <button onClick={onStopRecording} className="flex items-center gap-2 bg-red-500 text-white font-bold py-2 px-6 rounded-full hover:bg-red-600 transition-colors">
                     <StopIcon className="w-5 h-5" />
-                    Stop
+                    {t('uploader.stop')}
                   </button>
                 </div>
             )}
 
             {!isRecording && audioURL && (
               <div className="w-full flex flex-col items-center gap-4">
-                <p className="font-semibold text-green-400">Recording complete!</p>
+                <p className="font-semibold text-green-400">{t('uploader.recordingComplete')}</p>
                 <audio src={audioURL} controls className="w-full max-w-sm rounded-full" />
+                {file && onTrimChange && (
+                  <div className="w-full">
+                    <WaveformTrimmer file={file} onSelectionChange={onTrimChange} disabled={disabled} />
+                  </div>
+                )}
                 <button onClick={onClearRecording} className="text-sm text-sky-400 hover:underline">
-                  Re-record
+                  {t('uploader.reRecord')}
                 </button>
               </div>
             )}
           </div>
         )}
+
+        {file && playback && (
+          <SegmentPlayer file={file} label={playback.label} segments={playback.segments} onClose={() => onClosePlayback?.()} />
+        )}
       </div>
 
       <div className="sr-only" aria-live="polite" aria-atomic="true">
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Loader } from './Loader';
+import { analyzeAudioFile } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { isAbortError } from '../services/analysisErrors';
+import type { BatchItem, BatchItemStatus, ExportedProfile, VoiceProfile } from '../types';
+import { downloadTextFile, profilesToCsv, profilesToJson, profilesToMarkdown } from '../utils/exportUtils';
+import { extractAcousticFeatures } from '../utils/acousticFeatures';
+
+interface BatchAnalysisProps {
+  files: File[];
+  provider: AnalysisProvider | null;
+  includeAcoustics: boolean;
+  /** Rendered prompt template instructions. */
+  instructions: string;
+  onSelectResult: (result: ExportedProfile) => void;
+  onResult: (file: File, profile: VoiceProfile) => void;
+  onComplete: (failedCount: number) => void;
+  onClear: () => void;
+}
+
+const MAX_CONCURRENCY = 5;
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'text-slate-400',
+  running: 'text-sky-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+let nextItemId = 0;
+
+const createItems = (files: File[]): BatchItem[] =>
+  files.map((file) => ({ id: `batch-${nextItemId++}`, file, status: 'pending' }));
+
+export const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ files, provider, includeAcoustics, instructions, onSelectResult, onResult, onComplete, onClear }) => {
+  const [items, setItems] = useState<BatchItem[]>(() => createItems(files));
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Clearing the batch or starting a new one unmounts the panel; stop what is still in flight.
+  useEffect(() => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    return () => abortController.abort();
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem, activeProvider: AnalysisProvider) => {
+    const signal = abortControllerRef.current?.signal;
+    try {
+      // Measurement failures shouldn't fail the item; the model can still analyze the audio alone.
+      const acousticFeatures = includeAcoustics ? await extractAcousticFeatures(item.file).catch(() => null) : null;
+      const profile = await analyzeAudioFile(activeProvider, item.file, { acousticFeatures, instructions, signal });
+      if (signal?.aborted) return;
+      updateItem(item.id, { status: 'done', profile, error: undefined });
+      onResult(item.file, profile);
+    } catch (err) {
+      if (signal?.aborted || isAbortError(err)) return;
+      const message = err instanceof Error ? err.message : 'An unexpected error occurred.';
+      updateItem(item.id, { status: 'failed', error: message });
+    }
+  }, [updateItem, onResult, includeAcoustics, instructions]);
+
+  // Keeps up to `concurrency` items running until nothing is pending.
+  useEffect(() => {
+    if (!isRunning || !provider) return;
+
+    const runningCount = items.filter((item) => item.status === 'running').length;
+    const pending = items.filter((item) => item.status === 'pending');
+
+    if (pending.length === 0) {
+      if (runningCount === 0) {
+        setIsRunning(false);
+        onComplete(items.filter((item) => item.status === 'failed').length);
+      }
+      return;
+    }
+
+    const toStart = pending.slice(0, Math.max(0, concurrency - runningCount));
+    if (toStart.length === 0) return;
+
+    const startIds = new Set(toStart.map((item) => item.id));
+    setItems((prev) => prev.map((item) => (startIds.has(item.id) ? { ...item, status: 'running' } : item)));
+    toStart.forEach((item) => runItem(item, provider));
+  }, [items, isRunning, concurrency, provider, runItem, onComplete]);
+
+  const handleRetryFailed = () => {
+    setItems((prev) => prev.map((item) => (item.status === 'failed' ? { ...item, status: 'pending', error: undefined } : item)));
+    setIsRunning(true);
+  };
+
+  const toExportedProfile = (file: File, profile: VoiceProfile): ExportedProfile => ({
+    name: file.name.replace(/\.[^.]+$/, ''),
+    fileName: file.name,
+    providerId: provider?.id,
+    model: provider?.model,
+    generation: provider?.generation,
+    profile,
+  });
+
+  const completedProfiles = (): ExportedProfile[] =>
+    items.flatMap(({ file, profile }) => (profile ? [toExportedProfile(file, profile)] : []));
+
+  const handleExportCsv = () => {
+    // Unlike JSON and Markdown, the CSV keeps failed rows so the sheet accounts for every file.
+    const rows = items.map(({ file, profile, error }) => ({ name: file.name, fileName: file.name, model: provider?.model, generation: provider?.generation, profile, error }));
+    downloadTextFile('voice-analysis-batch.csv', profilesToCsv(rows), 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    downloadTextFile('voice-analysis-batch.json', profilesToJson(completedProfiles()), 'application/json');
+  };
+
+  const handleExportMarkdown = () => {
+    downloadTextFile('voice-analysis-batch.md', profilesToMarkdown(completedProfiles()), 'text/markdown');
+  };
+
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const failedCount = items.filter((item) => item.status === 'failed').length;
+  const hasPending = items.some((item) => item.status === 'pending');
+  const isFinished = !isRunning && !hasPending && items.length > 0;
+
+  return (
+    <div className="mt-6 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-sky-400">Batch Analysis</h2>
+          <p className="text-sm text-slate-400" aria-live="polite">
+            {doneCount} of {items.length} done{failedCount > 0 ? `, ${failedCount} failed` : ''}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="batch-concurrency" className="text-sm text-slate-400">Concurrency</label>
+          <input
+            id="batch-concurrency"
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-16 bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={() => setIsRunning(true)}
+          disabled={isRunning || !hasPending || !provider}
+          className="inline-flex items-center bg-sky-500 text-white font-bold py-2 px-4 rounded-full hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning ? <><Loader aria-hidden="true" />Analyzing...</> : 'Start Batch'}
+        </button>
+        <button
+          onClick={handleRetryFailed}
+          disabled={isRunning || failedCount === 0}
+          className="py-2 px-4 rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Retry Failed
+        </button>
+        <button
+          onClick={handleExportCsv}
+          disabled={!isFinished}
+          className="py-2 px-4 rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={handleExportJson}
+          disabled={!isFinished}
+          className="py-2 px-4 rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={handleExportMarkdown}
+          disabled={!isFinished || doneCount === 0}
+          className="py-2 px-4 rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Export Markdown
+        </button>
+        <button
+          onClick={onClear}
+          disabled={isRunning}
+          className="ml-auto text-sm text-sky-400 hover:underline disabled:opacity-50"
+        >
+          Clear batch
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs uppercase text-slate-500 border-b border-slate-700">
+            <tr>
+              <th className="py-2 pr-3">File</th>
+              <th className="py-2 pr-3">Status</th>
+              <th className="py-2 pr-3">Pitch</th>
+              <th className="py-2 pr-3">Pace</th>
+              <th className="py-2 pr-3">Tone</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id} className="border-b border-slate-800 align-top">
+                <td className="py-2 pr-3 text-slate-300 break-all">{item.file.name}</td>
+                <td className={`py-2 pr-3 capitalize ${STATUS_STYLES[item.status]}`}>
+                  {item.status}
+                  {item.error && <span className="block normal-case text-xs text-red-300">{item.error}</span>}
+                </td>
+                <td className="py-2 pr-3 text-slate-400">{item.profile?.dimensions.pitch.label ?? '—'}</td>
+                <td className="py-2 pr-3 text-slate-400">{item.profile?.dimensions.pace.label ?? '—'}</td>
+                <td className="py-2 pr-3 text-slate-400">{item.profile?.dimensions.tone.label ?? '—'}</td>
+                <td className="py-2 text-right">
+                  {item.profile && (
+                    <button onClick={() => onSelectResult(toExportedProfile(item.file, item.profile!))} className="text-sky-400 hover:underline">
+                      View
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AudioUploader } from './AudioUploader';
+import { Loader } from './Loader';
+import { ErrorIcon, SparklesIcon } from './Icons';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { analyzeAudioFile } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { isAbortError } from '../services/analysisErrors';
+import type { VoiceComparison, VoiceProfile } from '../types';
+import { extractAcousticFeatures } from '../utils/acousticFeatures';
+import { compareProfiles } from '../utils/voiceComparison';
+import { VOICE_DIMENSIONS } from '../utils/voiceProfile';
+
+interface ComparePanelProps {
+  provider: AnalysisProvider | null;
+  providerConfigError: string;
+  includeAcoustics: boolean;
+  /** Rendered prompt template instructions. */
+  instructions: string;
+  onResult: (file: File, profile: VoiceProfile) => void;
+  onFeedback: (type: 'success' | 'error') => void;
+}
+
+interface CompareSlotProps {
+  title: string;
+  description: string;
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+  disabled: boolean;
+  onError: (message: string) => void;
+}
+
+const CompareSlot: React.FC<CompareSlotProps> = ({ title, description, file, onFileChange, disabled, onError }) => {
+  const recorder = useAudioRecorder({ onRecordingComplete: onFileChange, onError });
+
+  const handleFileSelect = (selected: File | null) => {
+    recorder.clearRecording();
+    onFileChange(selected);
+  };
+
+  const handleClearRecording = () => {
+    recorder.clearRecording();
+    onFileChange(null);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">{title}</h2>
+      <p className="text-sm text-slate-400 mb-4">{description}</p>
+      <AudioUploader
+        file={file}
+        onFileSelect={handleFileSelect}
+        disabled={disabled}
+        isRecording={recorder.isRecording}
+        audioURL={recorder.audioURL}
+        onStartRecording={() => {
+          onFileChange(null);
+          recorder.startRecording();
+        }}
+        onStopRecording={recorder.stopRecording}
+        onClearRecording={handleClearRecording}
+        analyser={recorder.analyser}
+        elapsedSeconds={recorder.elapsedSeconds}
+        maxDurationSeconds={recorder.maxDurationSeconds}
+        onMaxDurationChange={recorder.setMaxDurationSeconds}
+        inputDevices={recorder.inputDevices}
+        selectedDeviceId={recorder.deviceId}
+        onDeviceChange={recorder.selectDevice}
+      />
+    </div>
+  );
+};
+
+const similarityColor = (similarity: number): string =>
+  similarity >= 80 ? 'text-green-400' : similarity >= 60 ? 'text-yellow-400' : 'text-red-400';
+
+const ScaleMarker: React.FC<{ value: number; className: string; label: string }> = ({ value, className, label }) => (
+  <div
+    className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-3 rounded-full border-2 border-slate-900 ${className}`}
+    style={{ left: `${value * 10}%` }}
+    title={`${label}: ${value}`}
+  />
+);
+
+export const ComparisonResult: React.FC<{ reference: VoiceProfile; candidate: VoiceProfile; comparison: VoiceComparison }> = ({ reference, candidate, comparison }) => (
+  <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+    <div className="flex items-baseline justify-between gap-2 mb-4">
+      <h2 className="text-lg font-semibold text-sky-400">Comparison</h2>
+      <p className="text-sm text-slate-400">
+        Similarity <span className={`text-2xl font-bold ${similarityColor(comparison.similarity)}`}>{comparison.similarity}</span>/100
+      </p>
+    </div>
+
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+      {[{ title: 'Reference', profile: reference }, { title: 'Candidate', profile: candidate }].map(({ title, profile }) => (
+        <div key={title} className="bg-slate-900 p-4 rounded-lg">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-2">{title}</h3>
+          <p className="text-slate-300 text-sm leading-relaxed">{profile.ttsPrompt}</p>
+        </div>
+      ))}
+    </div>
+
+    <div className="flex gap-4 text-xs text-slate-400 mb-2">
+      <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-sky-500 inline-block" /> Reference</span>
+      <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-fuchsia-500 inline-block" /> Candidate</span>
+    </div>
+    <ul className="flex flex-col gap-3">
+      {VOICE_DIMENSIONS.map(({ key, title, low, high }) => {
+        const result = comparison.dimensions[key];
+        return (
+          <li
+            key={key}
+            className={`p-3 rounded-lg border ${result.diverges ? 'border-red-700 bg-red-900/20' : 'border-slate-700 bg-slate-900'}`}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <h3 className="font-semibold text-slate-200">{title}</h3>
+              <span className={`text-sm ${similarityColor(result.similarity * 100)}`}>{Math.round(result.similarity * 100)}% match</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm text-slate-400 mt-1">
+              <span>{reference.dimensions[key].label}</span>
+              <span>{candidate.dimensions[key].label}</span>
+            </div>
+            <div className="relative h-1.5 rounded-full bg-slate-700 mt-3 mb-1">
+              <ScaleMarker value={reference.dimensions[key].scale} className="bg-sky-500" label="Reference" />
+              <ScaleMarker value={candidate.dimensions[key].scale} className="bg-fuchsia-500" label="Candidate" />
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span>{low}</span>
+              <span>{high}</span>
+            </div>
+            {result.diverges && <p className="text-sm text-red-300 mt-2">{result.suggestion}</p>}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({ provider, providerConfigError, includeAcoustics, instructions, onResult, onFeedback }) => {
+  const [referenceFile, setReferenceFile] = useState<File | null>(null);
+  const [candidateFile, setCandidateFile] = useState<File | null>(null);
+  const [profiles, setProfiles] = useState<{ reference: VoiceProfile; candidate: VoiceProfile } | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the Compare tab unmounts the panel; its results would land in history with nothing to show them.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleSlotError = useCallback((message: string) => {
+    setError(message);
+    onFeedback('error');
+  }, [onFeedback]);
+
+  const handleReferenceChange = useCallback((file: File | null) => {
+    setReferenceFile(file);
+    setProfiles(null);
+  }, []);
+
+  const handleCandidateChange = useCallback((file: File | null) => {
+    setCandidateFile(file);
+    setProfiles(null);
+  }, []);
+
+  const analyze = async (activeProvider: AnalysisProvider, file: File, signal: AbortSignal): Promise<VoiceProfile> => {
+    const acousticFeatures = includeAcoustics ? await extractAcousticFeatures(file).catch(() => null) : null;
+    signal.throwIfAborted();
+    const profile = await analyzeAudioFile(activeProvider, file, { acousticFeatures, instructions, signal });
+    signal.throwIfAborted();
+    onResult(file, profile);
+    return profile;
+  };
+
+  const handleCompare = async () => {
+    if (!referenceFile || !candidateFile) return;
+    if (!provider) {
+      setError(providerConfigError);
+      onFeedback('error');
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoading(true);
+    setError('');
+    setProfiles(null);
+    try {
+      const [reference, candidate] = await Promise.all([
+        analyze(provider, referenceFile, abortController.signal),
+        analyze(provider, candidateFile, abortController.signal),
+      ]);
+      setProfiles({ reference, candidate });
+      onFeedback('success');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      onFeedback('error');
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const canCompare = referenceFile && candidateFile && !isLoading && !!provider;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 gap-6">
+        <CompareSlot
+          title="Reference Voice"
+          description="The voice you want to match."
+          file={referenceFile}
+          onFileChange={handleReferenceChange}
+          disabled={isLoading}
+          onError={handleSlotError}
+        />
+        <CompareSlot
+          title="Candidate Voice"
+          description="For example, a TTS render generated from the reference description."
+          file={candidateFile}
+          onFileChange={handleCandidateChange}
+          disabled={isLoading}
+          onError={handleSlotError}
+        />
+      </div>
+
+      <div className="text-center my-6">
+        <button
+          onClick={handleCompare}
+          disabled={!canCompare}
+          className="inline-flex items-center gap-2 bg-sky-500 text-white font-bold py-3 px-8 rounded-full shadow-lg hover:bg-sky-600 focus:outline-none focus:ring-4 focus:ring-sky-500/50 transition-all duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed disabled:shadow-none"
+        >
+          {isLoading ? (
+            <>
+              <Loader aria-hidden="true" />
+              Comparing...
+            </>
+          ) : (
+            <>
+              <SparklesIcon className="w-5 h-5" aria-hidden="true" />
+              Compare Voices
+            </>
+          )}
+        </button>
+        {isLoading && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="ml-3 py-3 px-6 rounded-full border border-slate-600 text-slate-300 font-semibold hover:border-red-500 hover:text-red-300 transition-colors focus:outline-none focus:ring-4 focus:ring-red-500/30"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative flex items-start gap-3" role="alert">
+          <ErrorIcon className="w-5 h-5 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          <div>
+            <strong className="font-bold">Error!</strong>
+            <span className="block sm:inline ml-2">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {profiles && !isLoading && (
+        <ComparisonResult
+          reference={profiles.reference}
+          candidate={profiles.candidate}
+          comparison={compareProfiles(profiles.reference, profiles.candidate)}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader } from './Loader';
+import { DiffView } from './DiffView';
+import { refineAudioAnalysis } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { isAbortError } from '../services/analysisErrors';
+import { buildAttributeEditInstruction } from '../services/analysisPrompt';
+import type { VoiceDimensionKey, VoiceProfile } from '../types';
+import { changedDimensions, composeTtsPrompt, isSameScaleBand, labelForScale, labelSuggestions } from '../utils/promptComposer';
+import { toSentenceLines } from '../utils/textDiff';
+import { VOICE_DIMENSIONS } from '../utils/voiceProfile';
+
+interface DescriptionEditorProps {
+  provider: AnalysisProvider | null;
+  providerConfigError: string;
+  /** The profile currently shown; edits start from it. */
+  profile: VoiceProfile;
+  /** Rendered prompt template instructions the analysis was made with. */
+  instructions: string;
+  onApply: (profile: VoiceProfile) => void;
+  onFeedback: (type: 'success' | 'error') => void;
+}
+
+const buttonClassName = 'py-1.5 px-3 text-sm rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 hover:text-sky-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Lets a director adjust the analyzed characteristics with sliders and labels,
+ * then rewrites the TTS prompt to match: locally from the labels, or with the
+ * model for fluent prose. The rewrite is diffed against the original analysis
+ * before it replaces the result.
+ */
+export const DescriptionEditor: React.FC<DescriptionEditorProps> = ({ provider, providerConfigError, profile, instructions, onApply, onFeedback }) => {
+  const [original] = useState<VoiceProfile>(profile);
+  const [dimensions, setDimensions] = useState<VoiceProfile['dimensions']>(profile.dimensions);
+  const [proposal, setProposal] = useState<{ text: string; source: 'template' | 'model' } | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // A new version of the result (applied here or picked in the refinement panel) becomes the starting point.
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+    setDimensions(profile.dimensions);
+    setProposal(null);
+    setError('');
+  }, [profile]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const changed = changedDimensions(profile.dimensions, dimensions);
+
+  const updateDimension = (key: VoiceDimensionKey, changes: { label?: string; scale?: number }) => {
+    setDimensions((prev) => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  const handleScaleChange = (key: VoiceDimensionKey, scale: number) => {
+    const current = dimensions[key];
+    // Keep a hand-written label while the scale stays in its band; past it the label would contradict the scale.
+    updateDimension(key, { scale, label: isSameScaleBand(current.scale, scale) ? current.label : labelForScale(key, scale) });
+  };
+
+  const handleTemplateRewrite = () => {
+    setError('');
+    setProposal({ text: composeTtsPrompt(dimensions), source: 'template' });
+  };
+
+  const handleModelRewrite = async () => {
+    if (!provider) {
+      setError(providerConfigError);
+      onFeedback('error');
+      return;
+    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoading(true);
+    setError('');
+    try {
+      // The clip is left out: the model only rewords, it should not re-judge the voice.
+      const { ttsPrompt } = await refineAudioAnalysis(
+        provider,
+        null,
+        { original: profile, turns: [], instruction: buildAttributeEditInstruction(profile, dimensions, changed) },
+        { instructions, signal: abortController.signal }
+      );
+      setProposal({ text: ttsPrompt, source: 'model' });
+      onFeedback('success');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      onFeedback('error');
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!proposal?.text.trim()) return;
+    onApply({ ...profile, dimensions, ttsPrompt: proposal.text.trim() });
+  };
+
+  const handleReset = () => {
+    setDimensions(profile.dimensions);
+    setProposal(null);
+    setError('');
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">Adjust the Description</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Move a characteristic or relabel it, then rewrite the TTS prompt to match. The template writes one sentence per characteristic; the model rewrites the existing prose.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {VOICE_DIMENSIONS.map(({ key, title, low, high }) => {
+          const dimension = dimensions[key];
+          const before = profile.dimensions[key];
+          return (
+            <div key={key} className="bg-slate-900 p-3 rounded-lg">
+              <div className="flex items-baseline justify-between gap-2">
+                <label htmlFor={`edit-${key}-label`} className="text-sm font-semibold text-slate-400 uppercase tracking-wide">{title}</label>
+                <span className="text-xs text-slate-500">{dimension.scale}/10</span>
+              </div>
+              <input
+                id={`edit-${key}-label`}
+                value={dimension.label}
+                onChange={(e) => updateDimension(key, { label: e.target.value })}
+                list={`edit-${key}-suggestions`}
+                disabled={isLoading}
+                className="mt-1 w-full bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              />
+              <datalist id={`edit-${key}-suggestions`}>
+                {labelSuggestions(key).map((label) => <option key={label} value={label} />)}
+              </datalist>
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={1}
+                value={dimension.scale}
+                onChange={(e) => handleScaleChange(key, Number(e.target.value))}
+                disabled={isLoading}
+                className="mt-2 w-full accent-sky-500"
+                aria-label={`${title} scale`}
+              />
+              <div className="flex justify-between text-[10px] text-slate-500">
+                <span>{low}</span>
+                <span>{high}</span>
+              </div>
+              {changed.includes(key) && (
+                <p className="text-xs text-yellow-400 mt-1">Was “{before.label}” ({before.scale}/10)</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        <button onClick={handleTemplateRewrite} disabled={isLoading} className={buttonClassName}>
+          Rewrite from template
+        </button>
+        <button onClick={handleModelRewrite} disabled={isLoading || changed.length === 0 || !provider} className={`${buttonClassName} inline-flex items-center gap-2`}>
+          {isLoading && <Loader aria-hidden="true" />}
+          {isLoading ? 'Rewriting...' : 'Rewrite with model'}
+        </button>
+        {isLoading ? (
+          <button onClick={() => abortControllerRef.current?.abort()} className={buttonClassName}>Cancel</button>
+        ) : (
+          <button onClick={handleReset} disabled={changed.length === 0 && !proposal} className={buttonClassName}>Reset</button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+
+      {proposal && (
+        <div className="mt-4">
+          <label htmlFor="edited-tts-prompt" className="block text-sm text-slate-300 mb-1">
+            New TTS prompt ({proposal.source === 'model' ? 'rewritten by the model' : 'from the template'})
+          </label>
+          <textarea
+            id="edited-tts-prompt"
+            value={proposal.text}
+            onChange={(e) => setProposal({ ...proposal, text: e.target.value })}
+            rows={4}
+            className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <p className="text-xs text-slate-500 mt-2 mb-1">Changes from the original analysis:</p>
+          <DiffView before={toSentenceLines(original.ttsPrompt)} after={toSentenceLines(proposal.text)} />
+          <button
+            onClick={handleApply}
+            disabled={!proposal.text.trim()}
+            className="mt-3 bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Apply to result
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
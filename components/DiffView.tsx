@@ -0,0 +1,32 @@
+import React from 'react';
+import { diffLines } from '../utils/textDiff';
+
+const LINE_STYLES = {
+  same: 'text-slate-400',
+  added: 'bg-green-900/40 text-green-300',
+  removed: 'bg-red-900/40 text-red-300',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+/**
+ * Renders a line diff between two texts.
+ */
+export const DiffView: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  const lines = diffLines(before, after);
+  const hasChanges = lines.some(({ type }) => type !== 'same');
+
+  return (
+    <pre className="bg-slate-900 rounded-lg p-3 text-xs font-mono overflow-x-auto max-h-80 overflow-y-auto">
+      {hasChanges
+        ? lines.map(({ type, text }, index) => (
+            <div key={index} className={`whitespace-pre-wrap px-1 ${LINE_STYLES[type]}`}>
+              <span aria-hidden="true" className="select-none opacity-60 mr-2">{LINE_MARKERS[type]}</span>
+              {type !== 'same' && <span className="sr-only">{type === 'added' ? 'Added: ' : 'Removed: '}</span>}
+              {text || ' '}
+            </div>
+          ))
+        : <span className="text-slate-500">No differences.</span>}
+    </pre>
+  );
+};
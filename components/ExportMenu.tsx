@@ -0,0 +1,43 @@
+import React from 'react';
+import type { ExportedProfile } from '../types';
+import { downloadTextFile, exportFileName, profilesToCsv, profilesToJson, profilesToMarkdown } from '../utils/exportUtils';
+
+interface ExportMenuProps {
+  /** Called at click time so the export reflects the latest state. */
+  getProfiles: () => ExportedProfile[];
+  baseName: string;
+  disabled?: boolean;
+}
+
+const buttonClassName = 'py-1.5 px-3 text-sm rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 hover:text-sky-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ getProfiles, baseName, disabled = false }) => {
+  const fileName = exportFileName(baseName);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Export">
+      <span className="text-xs text-slate-500 uppercase tracking-wide">Export</span>
+      <button
+        onClick={() => downloadTextFile(`${fileName}.json`, profilesToJson(getProfiles()), 'application/json')}
+        disabled={disabled}
+        className={buttonClassName}
+      >
+        JSON
+      </button>
+      <button
+        onClick={() => downloadTextFile(`${fileName}.md`, profilesToMarkdown(getProfiles()), 'text/markdown')}
+        disabled={disabled}
+        className={buttonClassName}
+      >
+        Markdown
+      </button>
+      <button
+        onClick={() => downloadTextFile(`${fileName}.csv`, profilesToCsv(getProfiles()), 'text/csv')}
+        disabled={disabled}
+        className={buttonClassName}
+      >
+        CSV
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React from 'react';
+import { DEFAULT_GENERATION_SETTINGS, GEMINI_MODELS } from '../services/generationSettings';
+import type { GenerationSettings } from '../types';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  /** Whether the Gemini provider is selected; the model and thinking budget only apply to it. */
+  isGemini: boolean;
+  error: string;
+  disabled: boolean;
+}
+
+const inputClassName = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50';
+
+const CUSTOM_MODEL = 'custom';
+
+const toNullableNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const NumberField: React.FC<{
+  id: string;
+  label: string;
+  hint: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+  step?: number;
+  disabled: boolean;
+}> = ({ id, label, hint, value, onChange, step = 1, disabled }) => (
+  <div>
+    <label className="block text-sm text-slate-300 mb-1" htmlFor={id}>{label}</label>
+    <input
+      id={id}
+      type="number"
+      step={step}
+      value={value ?? ''}
+      onChange={(e) => onChange(toNullableNumber(e.target.value))}
+      placeholder="Model default"
+      disabled={disabled}
+      className={inputClassName}
+    />
+    <p className="text-xs text-slate-500 mt-1">{hint}</p>
+  </div>
+);
+
+export const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange, isGemini, error, disabled }) => {
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...settings, ...changes });
+  const isKnownModel = GEMINI_MODELS.some(({ id }) => id === settings.model);
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h2 className="text-lg font-semibold text-sky-400">Model &amp; Generation</h2>
+        <button
+          onClick={() => onChange({ ...DEFAULT_GENERATION_SETTINGS })}
+          disabled={disabled}
+          className="text-sm text-sky-400 hover:underline font-semibold disabled:opacity-50"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">
+        Flash is much cheaper for bulk runs; Pro is best for final decisions. These settings are saved in this browser and recorded with every result.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {isGemini && (
+          <div className="sm:col-span-2">
+            <label className="block text-sm text-slate-300 mb-1" htmlFor="gemini-model">Gemini model</label>
+            <select
+              id="gemini-model"
+              value={isKnownModel ? settings.model : CUSTOM_MODEL}
+              onChange={(e) => update({ model: e.target.value === CUSTOM_MODEL ? '' : e.target.value })}
+              disabled={disabled}
+              className={inputClassName}
+            >
+              {GEMINI_MODELS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+              <option value={CUSTOM_MODEL}>Other model...</option>
+            </select>
+            {!isKnownModel && (
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => update({ model: e.target.value.trim() })}
+                placeholder="e.g. gemini-2.5-flash-preview-09-2025"
+                disabled={disabled}
+                className={`${inputClassName} mt-2`}
+                aria-label="Custom Gemini model"
+              />
+            )}
+          </div>
+        )}
+        <NumberField
+          id="generation-temperature"
+          label="Temperature"
+          hint="0-2. Lower is more consistent between runs."
+          value={settings.temperature}
+          onChange={(temperature) => update({ temperature })}
+          step={0.1}
+          disabled={disabled}
+        />
+        <NumberField
+          id="generation-max-tokens"
+          label="Max output tokens"
+          hint={isGemini ? 'Includes thinking tokens on Gemini 2.5 models.' : 'Sent as max_tokens.'}
+          value={settings.maxOutputTokens}
+          onChange={(maxOutputTokens) => update({ maxOutputTokens })}
+          disabled={disabled}
+        />
+        {isGemini && (
+          <NumberField
+            id="generation-thinking-budget"
+            label="Thinking budget"
+            hint="Tokens of reasoning; -1 lets the model decide, 0 turns it off on Flash."
+            value={settings.thinkingBudget}
+            onChange={(thinkingBudget) => update({ thinkingBudget })}
+            disabled={disabled}
+          />
+        )}
+        <NumberField
+          id="generation-seed"
+          label="Seed"
+          hint="Makes sampling repeatable, on a best-effort basis."
+          value={settings.seed}
+          onChange={(seed) => update({ seed })}
+          disabled={disabled}
+        />
+      </div>
+      {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+    </div>
+  );
+};
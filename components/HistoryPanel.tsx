@@ -0,0 +1,229 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { ExportMenu } from './ExportMenu';
+import type { ExportedProfile, HistoryEntry } from '../types';
+import { parseProfilesJson } from '../utils/exportUtils';
+import { describeGenerationSettings } from '../services/generationSettings';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  error: string;
+  onOpen: (entry: HistoryEntry) => void;
+  onUpdate: (id: string, changes: Partial<Pick<HistoryEntry, 'name' | 'tags'>>) => void;
+  onDelete: (id: string) => void;
+  /** Resolves to the number of profiles imported. */
+  onImport: (profiles: ExportedProfile[]) => Promise<number>;
+}
+
+const toExportedProfile = ({ name, fileName, createdAt, durationSeconds, providerId, model, generation, tags, profile }: HistoryEntry): ExportedProfile => ({
+  name,
+  fileName,
+  createdAt,
+  durationSeconds,
+  providerId,
+  model,
+  generation,
+  tags,
+  profile,
+});
+
+const formatDuration = (seconds: number | null): string => {
+  if (seconds === null) return '—';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+};
+
+const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+const HistoryRow: React.FC<{
+  entry: HistoryEntry;
+  onOpen: () => void;
+  onUpdate: HistoryPanelProps['onUpdate'];
+  onDelete: () => void;
+}> = ({ entry, onOpen, onUpdate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(entry.name);
+  const [tags, setTags] = useState(entry.tags.join(', '));
+
+  const handleSave = () => {
+    onUpdate(entry.id, { name: name.trim() || entry.name, tags: parseTags(tags) });
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setName(entry.name);
+    setTags(entry.tags.join(', '));
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${entry.name}" from your history?`)) {
+      onDelete();
+    }
+  };
+
+  return (
+    <li className="bg-slate-900 rounded-lg p-3">
+      {isEditing ? (
+        <div className="flex flex-col gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+            aria-label="Name"
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, separated by commas"
+            className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-slate-200 text-sm"
+            aria-label="Tags"
+          />
+          <div className="flex gap-3 text-sm">
+            <button onClick={handleSave} className="text-sky-400 hover:underline font-semibold">Save</button>
+            <button onClick={handleCancel} className="text-slate-400 hover:underline">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-slate-200 font-medium truncate">{entry.name}</p>
+            <p className="text-xs text-slate-500">
+              {new Date(entry.createdAt).toLocaleString()} · {formatDuration(entry.durationSeconds)} ·{' '}
+              <span title={entry.generation ? describeGenerationSettings(entry.generation) : undefined}>{entry.model}</span>
+              {!entry.audio && ' · imported, no audio'}
+            </p>
+            {entry.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {entry.tags.map((tag) => (
+                  <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-slate-700 text-sky-300">{tag}</span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-3 text-sm flex-shrink-0">
+            <button onClick={onOpen} className="text-sky-400 hover:underline font-semibold">Open</button>
+            <button onClick={() => setIsEditing(true)} className="text-slate-400 hover:underline">Edit</button>
+            <button onClick={handleDelete} className="text-red-400 hover:underline">Delete</button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, error, onOpen, onUpdate, onDelete, onImport }) => {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change event.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await onImport(parseProfilesJson(await file.text()));
+      if (count > 0) {
+        setImportMessage({ type: 'success', text: `Imported ${count} profile${count === 1 ? '' : 's'}.` });
+      }
+    } catch (err) {
+      setImportMessage({ type: 'error', text: err instanceof Error ? err.message : 'The file could not be imported.' });
+    }
+  };
+
+  const allTags = useMemo(
+    () => Array.from(new Set(entries.flatMap((entry) => entry.tags))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return entries.filter((entry) => {
+      if (activeTag && !entry.tags.includes(activeTag)) return false;
+      if (!normalizedQuery) return true;
+      return [entry.name, entry.fileName, entry.profile.ttsPrompt, ...entry.tags]
+        .some((text) => text.toLowerCase().includes(normalizedQuery));
+    });
+  }, [entries, query, activeTag]);
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">History</h2>
+      <p className="text-sm text-slate-400 mb-4">Every analysis is saved in this browser with its source audio.</p>
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <ExportMenu
+          getProfiles={() => filteredEntries.map(toExportedProfile)}
+          baseName="voice-profiles"
+          disabled={filteredEntries.length === 0}
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="py-1.5 px-3 text-sm rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 hover:text-sky-300 transition-colors"
+        >
+          Import JSON
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          className="hidden"
+          aria-label="Import profiles from JSON"
+        />
+      </div>
+      {importMessage && (
+        <p className={`text-sm mb-3 ${importMessage.type === 'error' ? 'text-red-400' : 'text-green-400'}`} role="status">
+          {importMessage.text}
+        </p>
+      )}
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search by name, file, description or tag"
+        className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        aria-label="Search history"
+      />
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                activeTag === tag ? 'border-sky-500 bg-sky-500/20 text-sky-300' : 'border-slate-600 text-slate-400 hover:border-sky-500'
+              }`}
+              aria-pressed={activeTag === tag}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {filteredEntries.length > 0 ? (
+        <ul className="mt-4 flex flex-col gap-2 max-h-96 overflow-y-auto">
+          {filteredEntries.map((entry) => (
+            <HistoryRow
+              key={entry.id}
+              entry={entry}
+              onOpen={() => onOpen(entry)}
+              onUpdate={onUpdate}
+              onDelete={() => onDelete(entry.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-slate-500">
+          {entries.length === 0 ? 'No saved analyses yet.' : 'No analyses match your search.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,332 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { ExportedProfile, VoicePreset } from '../types';
+import { parsePresetPack, presetsToPack } from '../services/presetLibrary';
+import type { PackedPreset } from '../services/presetLibrary';
+import { downloadTextFile, exportFileName } from '../utils/exportUtils';
+
+interface PresetLibraryProps {
+  presets: VoicePreset[];
+  /** The result on screen, offered for saving as a preset. */
+  currentResult: ExportedProfile | null;
+  onOpen: (preset: VoicePreset) => void;
+  onSave: (fields: PackedPreset) => void;
+  onUpdate: (id: string, changes: Partial<PackedPreset>) => void;
+  onDuplicate: (preset: VoicePreset) => void;
+  onDelete: (id: string) => void;
+  /** Returns the number of presets added. */
+  onImport: (presets: PackedPreset[]) => number;
+}
+
+const inputClassName = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50';
+const buttonClassName = 'py-1.5 px-3 text-sm rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 hover:text-sky-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+/**
+ * Edits the descriptive fields of a preset and its TTS prompt. The dimension
+ * labels and scales stay as they were analyzed.
+ */
+const PresetForm: React.FC<{
+  initial: PackedPreset;
+  categories: string[];
+  submitLabel: string;
+  onSubmit: (fields: PackedPreset) => void;
+  onCancel: () => void;
+}> = ({ initial, categories, submitLabel, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial.name);
+  const [category, setCategory] = useState(initial.category);
+  const [tags, setTags] = useState(initial.tags.join(', '));
+  const [notes, setNotes] = useState(initial.notes);
+  const [ttsPrompt, setTtsPrompt] = useState(initial.profile.ttsPrompt);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      ...initial,
+      name: name.trim() || initial.name,
+      category: category.trim(),
+      tags: parseTags(tags),
+      notes: notes.trim(),
+      profile: { ...initial.profile, ttsPrompt: ttsPrompt.trim() || initial.profile.ttsPrompt },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClassName} aria-label="Preset name" />
+        <input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          placeholder="Category, e.g. Brand voices"
+          list="preset-categories"
+          className={inputClassName}
+          aria-label="Category"
+        />
+        <datalist id="preset-categories">
+          {categories.map((option) => <option key={option} value={option} />)}
+        </datalist>
+      </div>
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, separated by commas"
+        className={`${inputClassName} text-sm`}
+        aria-label="Tags"
+      />
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes: where to use this voice, scripts it suits..."
+        rows={2}
+        className={`${inputClassName} text-sm`}
+        aria-label="Notes"
+      />
+      <textarea
+        value={ttsPrompt}
+        onChange={(e) => setTtsPrompt(e.target.value)}
+        rows={4}
+        className={`${inputClassName} text-sm`}
+        aria-label="TTS prompt"
+      />
+      <div className="flex gap-3 text-sm">
+        <button type="submit" className="text-sky-400 hover:underline font-semibold">{submitLabel}</button>
+        <button type="button" onClick={onCancel} className="text-slate-400 hover:underline">Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+const PresetRow: React.FC<{
+  preset: VoicePreset;
+  categories: string[];
+  onOpen: () => void;
+  onUpdate: PresetLibraryProps['onUpdate'];
+  onDuplicate: () => void;
+  onDelete: () => void;
+}> = ({ preset, categories, onOpen, onUpdate, onDuplicate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the preset "${preset.name}"?`)) {
+      onDelete();
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <li className="bg-slate-900 rounded-lg p-3">
+        <PresetForm
+          initial={preset}
+          categories={categories}
+          submitLabel="Save"
+          onSubmit={({ name, category, tags, notes, profile }) => {
+            onUpdate(preset.id, { name, category, tags, notes, profile });
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="bg-slate-900 rounded-lg p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-slate-200 font-medium truncate">{preset.name}</p>
+          <p className="text-xs text-slate-500">
+            {preset.category || 'Uncategorized'}
+            {preset.builtIn ? ' · built-in' : ` · updated ${new Date(preset.updatedAt).toLocaleDateString()}`}
+            {preset.source && ` · from ${preset.source}`}
+          </p>
+          {preset.notes && <p className="text-sm text-slate-400 mt-1">{preset.notes}</p>}
+          {preset.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {preset.tags.map((tag) => (
+                <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-slate-700 text-sky-300">{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-3 text-sm flex-shrink-0">
+          <button onClick={onOpen} className="text-sky-400 hover:underline font-semibold">Open</button>
+          <button onClick={onDuplicate} className="text-slate-400 hover:underline">Duplicate</button>
+          {!preset.builtIn && (
+            <>
+              <button onClick={() => setIsEditing(true)} className="text-slate-400 hover:underline">Edit</button>
+              <button onClick={handleDelete} className="text-red-400 hover:underline">Delete</button>
+            </>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({ presets, currentResult, onOpen, onSave, onUpdate, onDuplicate, onDelete, onImport }) => {
+  const [query, setQuery] = useState('');
+  const [activeCategory, setActiveCategory] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const categories = useMemo(
+    () => Array.from(new Set(presets.map((preset) => preset.category).filter(Boolean))).sort(),
+    [presets]
+  );
+
+  const allTags = useMemo(
+    () => Array.from(new Set(presets.flatMap((preset) => preset.tags))).sort(),
+    [presets]
+  );
+
+  const filteredPresets = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return presets.filter((preset) => {
+      if (activeCategory && preset.category !== activeCategory) return false;
+      if (activeTag && !preset.tags.includes(activeTag)) return false;
+      if (!normalizedQuery) return true;
+      return [preset.name, preset.category, preset.notes, preset.profile.ttsPrompt, ...preset.tags]
+        .some((text) => text.toLowerCase().includes(normalizedQuery));
+    });
+  }, [presets, query, activeCategory, activeTag]);
+
+  const handleSave = (fields: PackedPreset) => {
+    onSave(fields);
+    setIsSaving(false);
+    setMessage({ type: 'success', text: `Saved "${fields.name}" to the library.` });
+  };
+
+  const handleExport = () => {
+    const packName = activeCategory ? `${activeCategory} presets` : 'Voice presets';
+    downloadTextFile(`${exportFileName(packName)}.json`, presetsToPack(filteredPresets, packName), 'application/json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change event.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parsePresetPack(await file.text());
+      const count = onImport(pack.presets);
+      const packName = pack.name || file.name;
+      setMessage(count > 0
+        ? { type: 'success', text: `Imported ${count} preset${count === 1 ? '' : 's'} from ${packName}.` }
+        : { type: 'success', text: `Every preset in ${packName} is already in the library.` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'The file could not be imported.' });
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">Voice Presets</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Named voices to start from. Save a result here, or import a preset pack shared by your team.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {currentResult && !isSaving && (
+          <button onClick={() => setIsSaving(true)} className={buttonClassName}>Save current result as preset</button>
+        )}
+        <button onClick={handleExport} disabled={filteredPresets.length === 0} className={buttonClassName}>
+          Export pack
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className={buttonClassName}>
+          Import pack
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          className="hidden"
+          aria-label="Import a preset pack"
+        />
+      </div>
+
+      {currentResult && isSaving && (
+        <div className="bg-slate-900 rounded-lg p-3 mb-4">
+          <PresetForm
+            initial={{
+              name: currentResult.name,
+              category: activeCategory,
+              tags: currentResult.tags ?? [],
+              notes: '',
+              source: currentResult.fileName ?? currentResult.name,
+              profile: currentResult.profile,
+            }}
+            categories={categories}
+            submitLabel="Save preset"
+            onSubmit={handleSave}
+            onCancel={() => setIsSaving(false)}
+          />
+        </div>
+      )}
+      {message && (
+        <p className={`text-sm mb-3 ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`} role="status">
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, notes, description or tag"
+          className={inputClassName}
+          aria-label="Search presets"
+        />
+        <select
+          value={activeCategory}
+          onChange={(e) => setActiveCategory(e.target.value)}
+          className={`${inputClassName} sm:w-56`}
+          aria-label="Filter by category"
+        >
+          <option value="">All categories</option>
+          {categories.map((category) => <option key={category} value={category}>{category}</option>)}
+        </select>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                activeTag === tag ? 'border-sky-500 bg-sky-500/20 text-sky-300' : 'border-slate-600 text-slate-400 hover:border-sky-500'
+              }`}
+              aria-pressed={activeTag === tag}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {filteredPresets.length > 0 ? (
+        <ul className="mt-4 flex flex-col gap-2 max-h-96 overflow-y-auto">
+          {filteredPresets.map((preset) => (
+            <PresetRow
+              key={preset.id}
+              preset={preset}
+              categories={categories}
+              onOpen={() => onOpen(preset)}
+              onUpdate={onUpdate}
+              onDuplicate={() => onDuplicate(preset)}
+              onDelete={() => onDelete(preset.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-slate-500">No presets match your filters.</p>
+      )}
+    </div>
+  );
+};
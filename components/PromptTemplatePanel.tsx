@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import { DiffView } from './DiffView';
+import {
+  OUTPUT_LANGUAGES,
+  OUTPUT_STYLE_LABELS,
+  PROMPT_PLACEHOLDERS,
+  SPOKEN_LANGUAGE,
+  currentVersion,
+  findUnknownPlaceholders,
+  renderPromptTemplate,
+  versionToText,
+} from '../services/promptTemplates';
+import { SCORING_INSTRUCTIONS } from '../services/analysisPrompt';
+import type { PromptOutputStyle, PromptTemplate, PromptTemplateVariables, PromptTemplateVersion } from '../types';
+import { VOICE_DIMENSIONS } from '../utils/voiceProfile';
+
+interface PromptTemplatePanelProps {
+  templates: PromptTemplate[];
+  activeTemplate: PromptTemplate;
+  onSelect: (id: string) => void;
+  onDuplicate: (source: PromptTemplate, name: string) => string;
+  onSaveVersion: (id: string, body: string, variables: PromptTemplateVariables, note: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  /** Overrides every template's target language when set; see renderWithOutputLanguage. */
+  outputLanguage: string;
+  onOutputLanguageChange: (language: string) => void;
+  disabled: boolean;
+}
+
+const inputClassName = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50';
+const smallButtonClassName = 'py-1.5 px-3 text-sm rounded-full border border-slate-600 text-slate-300 hover:border-sky-500 hover:text-sky-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const VariablesEditor: React.FC<{
+  variables: PromptTemplateVariables;
+  onChange: (variables: PromptTemplateVariables) => void;
+  readOnly: boolean;
+}> = ({ variables, onChange, readOnly }) => {
+  const update = (changes: Partial<PromptTemplateVariables>) => onChange({ ...variables, ...changes });
+
+  const toggleDimension = (key: PromptTemplateVariables['dimensions'][number]) => {
+    const dimensions = variables.dimensions.includes(key)
+      ? variables.dimensions.filter((dimension) => dimension !== key)
+      : VOICE_DIMENSIONS.map((dimension) => dimension.key).filter((dimension) => dimension === key || variables.dimensions.includes(dimension));
+    update({ dimensions });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      <div>
+        <label className="block text-sm text-slate-300 mb-1" htmlFor="template-language">Target language</label>
+        <input
+          id="template-language"
+          value={variables.language}
+          onChange={(e) => update({ language: e.target.value })}
+          disabled={readOnly}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm text-slate-300 mb-1" htmlFor="template-max-length">Max prompt length</label>
+        <input
+          id="template-max-length"
+          type="number"
+          min={50}
+          max={4000}
+          step={50}
+          value={variables.maxLength}
+          onChange={(e) => update({ maxLength: Math.max(50, Number(e.target.value) || 0) })}
+          disabled={readOnly}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm text-slate-300 mb-1" htmlFor="template-output-style">Output style</label>
+        <select
+          id="template-output-style"
+          value={variables.outputStyle}
+          onChange={(e) => update({ outputStyle: e.target.value as PromptOutputStyle })}
+          disabled={readOnly}
+          className={inputClassName}
+        >
+          {(Object.keys(OUTPUT_STYLE_LABELS) as PromptOutputStyle[]).map((style) => (
+            <option key={style} value={style}>{OUTPUT_STYLE_LABELS[style]}</option>
+          ))}
+        </select>
+      </div>
+      <fieldset className="sm:col-span-3">
+        <legend className="text-sm text-slate-300 mb-1">Describe in the TTS prompt</legend>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {VOICE_DIMENSIONS.map(({ key, title }) => (
+            <label key={key} className="flex items-center gap-1.5 text-sm text-slate-400">
+              <input
+                type="checkbox"
+                checked={variables.dimensions.includes(key)}
+                onChange={() => toggleDimension(key)}
+                disabled={readOnly}
+                className="accent-sky-500"
+              />
+              {title}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </div>
+  );
+};
+
+const VersionList: React.FC<{
+  versions: PromptTemplateVersion[];
+  onRestore: (version: PromptTemplateVersion) => void;
+  readOnly: boolean;
+}> = ({ versions, onRestore, readOnly }) => {
+  const [diffVersion, setDiffVersion] = useState<number | null>(null);
+  const shown = versions.find((version) => version.version === diffVersion);
+  const previous = shown && versions[versions.indexOf(shown) - 1];
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-2">Versions</h3>
+      <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+        {[...versions].reverse().map((version, index) => (
+          <li key={version.version} className="flex items-center gap-3 text-sm bg-slate-900 rounded-md px-3 py-1.5">
+            <span className="font-mono text-sky-300">v{version.version}</span>
+            <span className="text-slate-400 truncate flex-1">
+              {version.note || 'No note'}
+              {version.createdAt > 0 && <span className="text-slate-500"> · {new Date(version.createdAt).toLocaleString()}</span>}
+            </span>
+            {index === 0 && <span className="text-xs text-green-400">current</span>}
+            <button
+              onClick={() => setDiffVersion(diffVersion === version.version ? null : version.version)}
+              disabled={version === versions[0]}
+              className="text-sky-400 hover:underline disabled:text-slate-600 disabled:no-underline"
+              aria-pressed={diffVersion === version.version}
+            >
+              Diff
+            </button>
+            {!readOnly && index > 0 && (
+              <button onClick={() => onRestore(version)} className="text-slate-400 hover:underline">Restore</button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {shown && previous && (
+        <div className="mt-3">
+          <p className="text-xs text-slate-500 mb-1">Changes from v{previous.version} to v{shown.version}</p>
+          <DiffView before={versionToText(previous)} after={versionToText(shown)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Edits one template. Mounted per template (via `key`) so the draft resets on switch.
+ */
+const TemplateEditor: React.FC<Omit<PromptTemplatePanelProps, 'templates' | 'activeTemplate' | 'onSelect'> & { template: PromptTemplate }> = ({
+  template,
+  onDuplicate,
+  onSaveVersion,
+  onRename,
+  onDelete,
+  disabled,
+}) => {
+  const current = currentVersion(template);
+  const [body, setBody] = useState<string>(current.body);
+  const [variables, setVariables] = useState<PromptTemplateVariables>(current.variables);
+  const [note, setNote] = useState<string>('');
+  const [name, setName] = useState<string>(template.name);
+  const [view, setView] = useState<'edit' | 'preview' | 'changes'>('edit');
+  const readOnly = template.builtIn || disabled;
+
+  const draft: PromptTemplateVersion = { ...current, body, variables };
+  const isDirty = versionToText(draft) !== versionToText(current);
+  const unknownPlaceholders = findUnknownPlaceholders(body);
+
+  const handleSave = () => {
+    onSaveVersion(template.id, body, variables, note.trim());
+    setNote('');
+    setView('edit');
+  };
+
+  const handleRestore = (version: PromptTemplateVersion) => {
+    setBody(version.body);
+    setVariables(version.variables);
+    setNote(`Restored v${version.version}`);
+    setView('changes');
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the template "${template.name}" and all of its versions?`)) {
+      onDelete(template.id);
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-4">
+      {template.builtIn ? (
+        <p className="text-sm text-slate-400">
+          The built-in template is read-only.{' '}
+          <button onClick={() => onDuplicate(template, `${template.name} copy`)} disabled={disabled} className="text-sky-400 hover:underline font-semibold">
+            Duplicate it
+          </button>{' '}
+          to make changes.
+        </p>
+      ) : (
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <label className="block text-sm text-slate-300 mb-1" htmlFor="template-name">Name</label>
+            <input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => name.trim() && name.trim() !== template.name && onRename(template.id, name.trim())}
+              disabled={readOnly}
+              className={inputClassName}
+            />
+          </div>
+          <button onClick={() => onDuplicate(template, `${template.name} copy`)} disabled={disabled} className={smallButtonClassName}>Duplicate</button>
+          <button onClick={handleDelete} disabled={disabled} className="py-1.5 px-3 text-sm rounded-full border border-slate-600 text-red-400 hover:border-red-500 disabled:opacity-50 transition-colors">Delete</button>
+        </div>
+      )}
+
+      <VariablesEditor variables={variables} onChange={setVariables} readOnly={readOnly} />
+
+      <div>
+        <div className="flex gap-2 mb-2" role="tablist">
+          {(['edit', 'preview', 'changes'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setView(tab)}
+              role="tab"
+              aria-selected={view === tab}
+              disabled={tab === 'changes' && !isDirty}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors disabled:opacity-40 ${
+                view === tab ? 'border-sky-500 bg-sky-500/20 text-sky-300' : 'border-slate-600 text-slate-400 hover:border-sky-500'
+              }`}
+            >
+              {tab === 'edit' ? 'Template' : tab === 'preview' ? 'Rendered prompt' : 'Unsaved changes'}
+            </button>
+          ))}
+        </div>
+        {view === 'edit' && (
+          <>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={14}
+              readOnly={readOnly}
+              spellCheck={false}
+              className={`${inputClassName} font-mono text-xs leading-relaxed`}
+              aria-label="Template text"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              Placeholders:{' '}
+              {(Object.keys(PROMPT_PLACEHOLDERS) as (keyof typeof PROMPT_PLACEHOLDERS)[]).map((placeholder, index) => (
+                <React.Fragment key={placeholder}>
+                  {index > 0 && ', '}
+                  <code className="text-sky-300" title={PROMPT_PLACEHOLDERS[placeholder]}>{`{{${placeholder}}}`}</code>
+                </React.Fragment>
+              ))}
+              . Scoring rules and the output format are always appended.
+            </p>
+            {unknownPlaceholders.length > 0 && (
+              <p className="text-xs text-yellow-400 mt-1">
+                Unknown placeholders will be sent as written: {unknownPlaceholders.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+              </p>
+            )}
+          </>
+        )}
+        {view === 'preview' && (
+          <pre className="bg-slate-900 rounded-lg p-3 text-xs text-slate-300 whitespace-pre-wrap max-h-80 overflow-y-auto">
+            {`${renderPromptTemplate(body, variables)}\n${SCORING_INSTRUCTIONS}`}
+          </pre>
+        )}
+        {view === 'changes' && isDirty && <DiffView before={versionToText(current)} after={versionToText(draft)} />}
+      </div>
+
+      {!readOnly && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What changed? (optional)"
+            className={`${inputClassName} flex-1`}
+            aria-label="Version note"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+          >
+            Save as v{current.version + 1}
+          </button>
+        </div>
+      )}
+
+      <VersionList versions={template.versions} onRestore={handleRestore} readOnly={readOnly} />
+    </div>
+  );
+};
+
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({
+  templates,
+  activeTemplate,
+  onSelect,
+  onDuplicate,
+  outputLanguage,
+  onOutputLanguageChange,
+  ...editorProps
+}) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+
+  const handleDuplicate = (source: PromptTemplate, name: string): string => {
+    const id = onDuplicate(source, name);
+    onSelect(id);
+    return id;
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h2 className="text-lg font-semibold text-sky-400">Analysis Prompt</h2>
+        <button onClick={() => setIsEditing(!isEditing)} className="text-sm text-sky-400 hover:underline font-semibold" aria-expanded={isEditing}>
+          {isEditing ? 'Close editor' : 'Edit templates'}
+        </button>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">
+        The template that instructs the model. Edits are saved as new versions, so earlier wording can be compared and restored.
+      </p>
+      <label className="block text-sm text-slate-300 mb-1" htmlFor="template-select">Active template</label>
+      <select
+        id="template-select"
+        value={activeTemplate.id}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={editorProps.disabled}
+        className={inputClassName}
+      >
+        {templates.map((template) => (
+          <option key={template.id} value={template.id}>
+            {template.name} (v{currentVersion(template).version})
+          </option>
+        ))}
+      </select>
+      <label className="block text-sm text-slate-300 mt-3 mb-1" htmlFor="output-language">Output language</label>
+      <select
+        id="output-language"
+        value={outputLanguage}
+        onChange={(e) => onOutputLanguageChange(e.target.value)}
+        disabled={editorProps.disabled}
+        className={inputClassName}
+      >
+        <option value="">As set in the template ({currentVersion(activeTemplate).variables.language})</option>
+        <option value={SPOKEN_LANGUAGE}>Same as the audio</option>
+        {OUTPUT_LANGUAGES.map((language) => <option key={language} value={language}>{language}</option>)}
+        {outputLanguage && outputLanguage !== SPOKEN_LANGUAGE && !OUTPUT_LANGUAGES.includes(outputLanguage) && (
+          <option value={outputLanguage}>{outputLanguage}</option>
+        )}
+      </select>
+      <p className="text-xs text-slate-500 mt-1">The language of the labels, notes and TTS prompt. The spoken language and accent are detected either way.</p>
+
+      {isEditing && <TemplateEditor key={activeTemplate.id} template={activeTemplate} onDuplicate={handleDuplicate} {...editorProps} />}
+    </div>
+  );
+};
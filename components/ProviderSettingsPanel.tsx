@@ -0,0 +1,79 @@
+import React from 'react';
+import { PROVIDER_LABELS } from '../services/analysisProvider';
+import type { AnalysisProviderId, ProviderSettings } from '../services/analysisProvider';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+const inputClassName = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 disabled:opacity-50';
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = (changes: Partial<ProviderSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-2">Analysis Provider</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Choose which backend analyzes your audio. The offline mock returns deterministic sample results and needs no network or key.
+      </p>
+      <label className="block text-sm text-slate-300 mb-1" htmlFor="provider-select">Provider</label>
+      <select
+        id="provider-select"
+        value={settings.provider}
+        onChange={(e) => update({ provider: e.target.value as AnalysisProviderId })}
+        disabled={disabled}
+        className={inputClassName}
+      >
+        {(Object.keys(PROVIDER_LABELS) as AnalysisProviderId[]).map((id) => (
+          <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+        ))}
+      </select>
+
+      {settings.provider === 'openai-compatible' && (
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="sm:col-span-2">
+            <label className="block text-sm text-slate-300 mb-1" htmlFor="openai-base-url">Base URL</label>
+            <input
+              id="openai-base-url"
+              type="url"
+              value={settings.openAiBaseUrl}
+              onChange={(e) => update({ openAiBaseUrl: e.target.value })}
+              placeholder="http://localhost:8000/v1"
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-slate-300 mb-1" htmlFor="openai-model">Model</label>
+            <input
+              id="openai-model"
+              type="text"
+              value={settings.openAiModel}
+              onChange={(e) => update({ openAiModel: e.target.value })}
+              placeholder="e.g. qwen2-audio-7b-instruct"
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-slate-300 mb-1" htmlFor="openai-api-key">API key (optional)</label>
+            <input
+              id="openai-api-key"
+              type="password"
+              value={settings.openAiApiKey}
+              onChange={(e) => update({ openAiApiKey: e.target.value })}
+              disabled={disabled}
+              className={inputClassName}
+            />
+          </div>
+          <p className="sm:col-span-2 text-xs text-slate-500">
+            The endpoint must accept <code>input_audio</code> content parts on <code>/chat/completions</code> and allow requests from this origin (CORS).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { t } from '../i18n/messages';
+
+interface RecordingMonitorProps {
+  analyser: AnalyserNode | null;
+  elapsedSeconds: number;
+  maxDurationSeconds: number;
+}
+
+// Peaks this close to full scale are treated as clipping.
+const CLIP_THRESHOLD = 0.99;
+// Speech RMS below this level is too quiet for a reliable analysis.
+const QUIET_THRESHOLD_DB = -45;
+const QUIET_WARNING_DELAY_MS = 2000;
+const CLIP_WARNING_HOLD_MS = 1500;
+const METER_FLOOR_DB = -60;
+
+export const formatElapsed = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export const RecordingMonitor: React.FC<RecordingMonitorProps> = ({ analyser, elapsedSeconds, maxDurationSeconds }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [levelDb, setLevelDb] = useState<number>(METER_FLOOR_DB);
+  const [isClipping, setIsClipping] = useState<boolean>(false);
+  const [isTooQuiet, setIsTooQuiet] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!analyser) return;
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frameId = 0;
+    let lastClipAt = -Infinity;
+    let quietSince: number | null = null;
+
+    const draw = (now: number) => {
+      analyser.getFloatTimeDomainData(samples);
+
+      let peak = 0;
+      let sumSquares = 0;
+      for (const sample of samples) {
+        peak = Math.max(peak, Math.abs(sample));
+        sumSquares += sample * sample;
+      }
+      const rmsDb = 20 * Math.log10(Math.max(Math.sqrt(sumSquares / samples.length), 1e-10));
+
+      if (peak >= CLIP_THRESHOLD) lastClipAt = now;
+      quietSince = rmsDb < QUIET_THRESHOLD_DB ? quietSince ?? now : null;
+      setLevelDb(Math.max(METER_FLOOR_DB, rmsDb));
+      setIsClipping(now - lastClipAt < CLIP_WARNING_HOLD_MS);
+      setIsTooQuiet(quietSince !== null && now - quietSince > QUIET_WARNING_DELAY_MS);
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const { width, height } = canvas;
+        ctx.clearRect(0, 0, width, height);
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = peak >= CLIP_THRESHOLD ? '#f87171' : '#38bdf8';
+        ctx.beginPath();
+        for (let i = 0; i < samples.length; i++) {
+          const x = (i / (samples.length - 1)) * width;
+          const y = ((1 - samples[i]) / 2) * height;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+
+      frameId = requestAnimationFrame(draw);
+    };
+
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, [analyser]);
+
+  const levelPercent = ((levelDb - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100;
+  const remaining = Math.max(0, maxDurationSeconds - elapsedSeconds);
+
+  return (
+    <div className="w-full max-w-sm flex flex-col gap-2">
+      <canvas ref={canvasRef} width={400} height={64} className="w-full h-16 bg-slate-900 rounded-md" aria-hidden="true" />
+      <div
+        className="h-2 rounded-full bg-slate-700 overflow-hidden"
+        role="meter"
+        aria-label={t('monitor.inputLevel')}
+        aria-valuemin={METER_FLOOR_DB}
+        aria-valuemax={0}
+        aria-valuenow={Math.round(levelDb)}
+      >
+        <div
+          className={`h-full transition-[width] duration-75 ${isClipping ? 'bg-red-500' : levelDb < QUIET_THRESHOLD_DB ? 'bg-slate-500' : 'bg-green-500'}`}
+          style={{ width: `${levelPercent}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-xs text-slate-400 font-mono">
+        <span aria-live="off">{formatElapsed(elapsedSeconds)}</span>
+        <span>{t('monitor.autoStop', { time: formatElapsed(remaining) })}</span>
+      </div>
+      {isClipping && (
+        <p className="text-xs text-red-400" role="alert">{t('monitor.clipping')}</p>
+      )}
+      {isTooQuiet && !isClipping && (
+        <p className="text-xs text-yellow-400" role="alert">{t('monitor.tooQuiet')}</p>
+      )}
+    </div>
+  );
+};
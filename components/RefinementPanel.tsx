@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader } from './Loader';
+import { DiffView } from './DiffView';
+import { toSentenceLines } from '../utils/textDiff';
+import { refineAudioAnalysis } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { isAbortError } from '../services/analysisErrors';
+import type { AcousticFeatures, VoiceProfile } from '../types';
+
+interface RefinementPanelProps {
+  provider: AnalysisProvider | null;
+  providerConfigError: string;
+  /**
+   * The profile currently shown. The first one becomes version 1; one that
+   * changes outside this panel (e.g. applied from the description editor) is
+   * added as a new version.
+   */
+  profile: VoiceProfile;
+  /** Resolves to the analyzed clip, or null when there is no audio (e.g. examples and imports). */
+  prepareInput: (() => Promise<{ file: File; acousticFeatures: AcousticFeatures | null }>) | null;
+  /** Rendered prompt template instructions the original analysis was made with. */
+  instructions: string;
+  onSelectVersion: (profile: VoiceProfile) => void;
+  onFeedback: (type: 'success' | 'error') => void;
+}
+
+interface RefinementVersion {
+  version: number;
+  /** The version this one was refined from; null for the original. */
+  parent: number | null;
+  instruction: string | null;
+  /** Set when the version was edited outside the panel rather than refined by the model. */
+  edited?: boolean;
+  profile: VoiceProfile;
+}
+
+// Stands in for the request in the conversation when a version was edited by hand.
+const EDITED_INSTRUCTION = 'I edited the description myself; use this version from now on.';
+
+const SUGGESTIONS = [
+  'Shorter, under 40 words',
+  'More specific about the accent',
+  'Describe the emotion in more detail',
+  'Write it as direction to a voice actor',
+];
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Follow-up chat for revising an analysis. The model sees the clip and the
+ * exchange leading to the selected version, and each answer becomes a new
+ * version that can be picked from the list.
+ */
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({
+  provider,
+  providerConfigError,
+  profile,
+  prepareInput,
+  instructions,
+  onSelectVersion,
+  onFeedback,
+}) => {
+  const [versions, setVersions] = useState<RefinementVersion[]>(() => [{ version: 1, parent: null, instruction: null, profile }]);
+  const [selectedVersion, setSelectedVersion] = useState<number>(1);
+  const [draft, setDraft] = useState<string>('');
+  const [showChanges, setShowChanges] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const findVersion = (version: number): RefinementVersion => versions[version - 1];
+  const selected = findVersion(selectedVersion);
+  const parent = selected.parent === null ? null : findVersion(selected.parent);
+
+  // Picking a version shows its profile as is, so a profile that matches none of them was edited elsewhere.
+  useEffect(() => {
+    const existing = versions.find((version) => version.profile === profile);
+    if (existing) {
+      setSelectedVersion(existing.version);
+      return;
+    }
+    const edited: RefinementVersion = { version: versions.length + 1, parent: selectedVersion, instruction: EDITED_INSTRUCTION, edited: true, profile };
+    setVersions((prev) => [...prev, edited]);
+    setSelectedVersion(edited.version);
+  }, [profile]);
+
+  const selectVersion = (version: RefinementVersion) => {
+    setSelectedVersion(version.version);
+    onSelectVersion(version.profile);
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!instruction.trim()) return;
+    if (!provider) {
+      setError(providerConfigError);
+      onFeedback('error');
+      return;
+    }
+
+    // The conversation is the chain of refinements that led to the selected version.
+    const chain: RefinementVersion[] = [];
+    for (let current: RefinementVersion | null = selected; current; current = current.parent === null ? null : findVersion(current.parent)) {
+      chain.unshift(current);
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoading(true);
+    setError('');
+    try {
+      const input = prepareInput ? await prepareInput() : null;
+      const profile = await refineAudioAnalysis(
+        provider,
+        input?.file ?? null,
+        {
+          original: chain[0].profile,
+          turns: chain.slice(1).map((version) => ({ instruction: version.instruction ?? '', profile: version.profile })),
+          instruction: instruction.trim(),
+        },
+        { acousticFeatures: input?.acousticFeatures, instructions, signal: abortController.signal }
+      );
+      const refined: RefinementVersion = { version: versions.length + 1, parent: selected.version, instruction: instruction.trim(), profile };
+      setVersions((prev) => [...prev, refined]);
+      selectVersion(refined);
+      setDraft('');
+      onFeedback('success');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      onFeedback('error');
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">Refine the Result</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Close but not quite right? Ask for a change instead of re-running the analysis.
+        {prepareInput ? ' The model keeps the clip and its previous answers in context.' : ' There is no clip for this result, so the model works from its previous answer.'}
+      </p>
+
+      <ol className="space-y-2 mb-4">
+        {versions.map((version) => {
+          const isSelected = version.version === selectedVersion;
+          return (
+            <li key={version.version}>
+              <button
+                onClick={() => selectVersion(version)}
+                disabled={isLoading}
+                aria-pressed={isSelected}
+                className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                  isSelected ? 'border-sky-500 bg-sky-500/10' : 'border-slate-700 hover:border-slate-500'
+                }`}
+              >
+                <span className="text-sm font-semibold text-slate-200">v{version.version}</span>
+                <span className="text-sm text-slate-300 ml-2">{version.edited ? 'Edited description' : version.instruction ? `“${version.instruction}”` : 'Original analysis'}</span>
+                <span className="block text-xs text-slate-500 mt-0.5">
+                  {countWords(version.profile.ttsPrompt)} words
+                  {version.parent !== null && version.parent !== version.version - 1 && ` · refined from v${version.parent}`}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {parent && (
+        <div className="mb-4">
+          <button onClick={() => setShowChanges((prev) => !prev)} className="text-sm text-sky-400 hover:underline font-semibold">
+            {showChanges ? 'Hide changes' : `Show changes from v${parent.version}`}
+          </button>
+          {showChanges && (
+            <div className="mt-2">
+              <DiffView before={toSentenceLines(parent.profile.ttsPrompt)} after={toSentenceLines(selected.profile.ttsPrompt)} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-2">
+        {SUGGESTIONS.map((suggestion) => (
+          <button
+            key={suggestion}
+            onClick={() => setDraft(suggestion)}
+            disabled={isLoading}
+            className="text-xs px-3 py-1 rounded-full border border-slate-600 text-slate-400 hover:border-sky-500 hover:text-sky-300 transition-colors disabled:opacity-50"
+          >
+            {suggestion}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleRefine(draft);
+        }}
+        rows={2}
+        disabled={isLoading}
+        placeholder={`How should v${selectedVersion} change?`}
+        className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        aria-label="Refinement instruction"
+      />
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={() => handleRefine(draft)}
+          disabled={isLoading || !draft.trim() || !provider}
+          className="inline-flex items-center justify-center gap-2 bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading && <Loader aria-hidden="true" />}
+          {isLoading ? 'Refining...' : `Refine v${selectedVersion}`}
+        </button>
+        {isLoading && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="py-2 px-4 rounded-md border border-slate-600 text-slate-300 font-semibold hover:border-red-500 hover:text-red-300 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+    </div>
+  );
+};
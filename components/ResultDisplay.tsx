@@ -1,15 +1,99 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { CopyIcon, CheckIcon, AILogo } from './Icons';
+import { ExportMenu } from './ExportMenu';
+import { TtsPreview } from './TtsPreview';
+import type { TtsProvider } from '../services/ttsProvider';
+import { describeGenerationSettings } from '../services/generationSettings';
+import type { AcousticFeatures, ExportedProfile, SpokenLanguage, VoiceDimension, VoiceProfile } from '../types';
+import { VOICE_DIMENSIONS, parsePartialProfile } from '../utils/voiceProfile';
+import { TTS_TARGETS, DEFAULT_TTS_TARGET, DEFAULT_SAMPLE_TEXT, formatForTarget, getTtsTarget } from '../utils/ttsTargets';
+import type { TtsTargetId } from '../utils/ttsTargets';
 
 interface ResultDisplayProps {
-  resultText: string;
+  /** The profile to show, with the metadata carried into exports. */
+  result: ExportedProfile;
+  /** Local measurements of the analyzed audio, used to ground SSML prosody. */
+  acousticFeatures?: AcousticFeatures | null;
+  /** The analyzed clip, if it is still available, for side-by-side playback with a preview. */
+  originalAudio?: Blob | null;
+  ttsProvider: TtsProvider | null;
+  ttsConfigError: string;
+  onAnalyzePreview?: (file: File, signal: AbortSignal) => Promise<VoiceProfile>;
 }
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ resultText }) => {
+const loadTtsTarget = (): TtsTargetId => {
+  const saved = localStorage.getItem('TTS_TARGET');
+  return TTS_TARGETS.some((target) => target.id === saved) ? (saved as TtsTargetId) : DEFAULT_TTS_TARGET;
+};
+
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+const DimensionCard: React.FC<{ title: string; low: string; high: string; dimension: VoiceDimension }> = ({ title, low, high, dimension }) => (
+  <div className="bg-slate-900 p-4 rounded-lg">
+    <div className="flex items-baseline justify-between gap-2">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide">{title}</h3>
+      <span className="text-xs text-slate-500">Confidence {formatConfidence(dimension.confidence)}</span>
+    </div>
+    <p className="text-slate-200 font-medium mt-1">{dimension.label}</p>
+    <div
+      className="mt-3 h-1.5 rounded-full bg-slate-700 relative"
+      role="meter"
+      aria-label={`${title} scale`}
+      aria-valuemin={0}
+      aria-valuemax={10}
+      aria-valuenow={dimension.scale}
+    >
+      <div className="absolute inset-y-0 left-0 rounded-full bg-sky-500" style={{ width: `${dimension.scale * 10}%` }} />
+    </div>
+    <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+      <span>{low}</span>
+      <span>{high}</span>
+    </div>
+    {dimension.notes && <p className="text-sm text-slate-400 mt-2 leading-relaxed">{dimension.notes}</p>}
+  </div>
+);
+
+const LanguageCard: React.FC<{ language: SpokenLanguage }> = ({ language }) => (
+  <div className="bg-slate-900 p-4 rounded-lg grid grid-cols-1 sm:grid-cols-2 gap-3">
+    <div>
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide">Language</h3>
+        <span className="text-xs text-slate-500">Confidence {formatConfidence(language.confidence)}</span>
+      </div>
+      <p className="text-slate-200 font-medium mt-1">
+        {language.name}
+        {language.code && <span className="text-slate-500 font-normal"> · {language.code}</span>}
+      </p>
+    </div>
+    <div>
+      <div className="flex items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide">Accent</h3>
+        {language.accent && <span className="text-xs text-slate-500">Confidence {formatConfidence(language.accentConfidence)}</span>}
+      </div>
+      <p className={`font-medium mt-1 ${language.accent ? 'text-slate-200' : 'text-slate-500'}`}>{language.accent || 'None discernible'}</p>
+    </div>
+  </div>
+);
+
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, acousticFeatures = null, originalAudio = null, ttsProvider, ttsConfigError, onAnalyzePreview }) => {
+  const { profile } = result;
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
+  const [targetId, setTargetId] = useState<TtsTargetId>(loadTtsTarget);
+  const [sampleText, setSampleText] = useState<string>(DEFAULT_SAMPLE_TEXT);
+
+  const target = getTtsTarget(targetId);
+  const output = useMemo(
+    () => formatForTarget(targetId, profile, { features: acousticFeatures, sampleText }),
+    [targetId, profile, acousticFeatures, sampleText]
+  );
+
+  const handleTargetChange = (id: TtsTargetId) => {
+    setTargetId(id);
+    localStorage.setItem('TTS_TARGET', id);
+  };
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(resultText);
+    navigator.clipboard.writeText(output.text);
     setCopyStatus('copied');
     setTimeout(() => setCopyStatus('idle'), 2000);
   };
@@ -20,9 +104,43 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ resultText }) => {
         <h2 className="text-lg font-semibold text-sky-400 mb-4 flex items-center gap-2">
           <AILogo className="w-6 h-6" aria-hidden="true" />
           Generated Voice Description
+          <span className="ml-auto text-xs font-normal text-slate-500">Overall confidence {formatConfidence(profile.confidence)}</span>
         </h2>
+        {result.model && (
+          <p className="text-xs text-slate-500 -mt-2 mb-4">
+            Analyzed with {result.model}
+            {result.generation && ` · ${describeGenerationSettings(result.generation)}`}
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2 mb-2" role="radiogroup" aria-label="Target TTS engine">
+          {TTS_TARGETS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => handleTargetChange(id)}
+              role="radio"
+              aria-checked={targetId === id}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                targetId === id ? 'border-sky-500 bg-sky-500/20 text-sky-300' : 'border-slate-600 text-slate-400 hover:border-sky-500'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mb-3">{target.description}</p>
+        {target.usesSampleText && (
+          <label className="block mb-3">
+            <span className="text-xs text-slate-400">Text to speak</span>
+            <textarea
+              value={sampleText}
+              onChange={(e) => setSampleText(e.target.value)}
+              rows={2}
+              className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </label>
+        )}
         <div className="relative bg-slate-900 p-4 rounded-lg">
-          <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">{resultText}</p>
+          <p className={`text-slate-300 leading-relaxed whitespace-pre-wrap pr-10 ${target.usesSampleText || targetId === 'openai' ? 'font-mono text-sm' : ''}`}>{output.text}</p>
           <button
             onClick={handleCopy}
             className="absolute top-2 right-2 p-2 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-300 transition"
@@ -34,18 +152,73 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ resultText }) => {
             {copyStatus === 'copied' ? 'Copied to clipboard' : ''}
           </div>
         </div>
+        <p className={`text-xs mt-1 text-right ${output.truncated ? 'text-yellow-400' : 'text-slate-500'}`}>
+          {output.truncated && (target.usesSampleText ? 'Text to speak shortened to fit. ' : 'Shortened to fit. ')}
+          {output.length} / {target.maxLength} {target.lengthUnit}
+        </p>
+        {profile.language && (
+          <div className="mt-4">
+            <LanguageCard language={profile.language} />
+          </div>
+        )}
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {VOICE_DIMENSIONS.map(({ key, title, low, high }) => (
+            <DimensionCard key={key} title={title} low={low} high={high} dimension={profile.dimensions[key]} />
+          ))}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <ExportMenu getProfiles={() => [result]} baseName={result.name} />
+        </div>
+        <TtsPreview
+          profile={profile}
+          originalAudio={originalAudio}
+          ttsProvider={ttsProvider}
+          ttsConfigError={ttsConfigError}
+          onAnalyze={onAnalyzePreview}
+        />
         <div className="mt-6 text-center">
             <a 
-                href="https://aistudio.google.com/generate-speech"
+                href={target.url}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-block bg-gradient-to-r from-green-500 to-teal-500 text-white font-bold py-2 px-6 rounded-full shadow-md hover:shadow-lg transform hover:-translate-y-0.5 transition-all duration-300"
             >
-                Create TTS on AI Studio
+                {target.linkLabel}
             </a>
-            <p className="text-xs text-slate-500 mt-2">Use the copied description to generate speech.</p>
+            <p className="text-xs text-slate-500 mt-2">Use the copied output to generate speech.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+/**
+ * Shows an analysis while it is still streaming in, field by field.
+ */
+export const StreamingResultDisplay: React.FC<{ partialText: string }> = ({ partialText }) => {
+  const { labels, ttsPrompt } = parsePartialProfile(partialText);
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg backdrop-blur-sm border border-slate-700" aria-busy="true">
+      <div className="p-6">
+        <h2 className="text-lg font-semibold text-sky-400 mb-4 flex items-center gap-2">
+          <AILogo className="w-6 h-6 animate-pulse" aria-hidden="true" />
+          Analyzing...
+        </h2>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {VOICE_DIMENSIONS.map(({ key, title }) => (
+            <div key={key} className="bg-slate-900 p-3 rounded-lg">
+              <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{title}</h3>
+              <p className={`text-sm mt-1 ${labels[key] ? 'text-slate-200' : 'text-slate-600'}`}>{labels[key] ?? 'Listening...'}</p>
+            </div>
+          ))}
         </div>
+        {ttsPrompt && (
+          <p className="mt-4 bg-slate-900 p-4 rounded-lg text-slate-300 leading-relaxed whitespace-pre-wrap">
+            {ttsPrompt}
+            <span className="inline-block w-2 h-4 ml-0.5 bg-sky-400 animate-pulse align-middle" aria-hidden="true" />
+          </p>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { formatTime } from './WaveformTrimmer';
+import type { SpeakerSegment } from '../types';
+
+interface SegmentPlayerProps {
+  file: File;
+  /** Whose segments these are, e.g. "Speaker 2". */
+  label: string;
+  segments: SpeakerSegment[];
+  onClose: () => void;
+}
+
+/**
+ * Plays selected stretches of a clip back to back, skipping everything in between.
+ */
+export const SegmentPlayer: React.FC<SegmentPlayerProps> = ({ file, label, segments, onClose }) => {
+  const [audioSrc, setAudioSrc] = useState<string>('');
+  // Index of the segment being played, or null when stopped.
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  // Whether playback continues into the next segment or stops after the current one.
+  const [playsAll, setPlaysAll] = useState<boolean>(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setAudioSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    audioRef.current?.pause();
+    setPlayingIndex(null);
+  }, [segments]);
+
+  const playSegment = (index: number, continueAfter: boolean) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segments[index].start;
+    audio.play();
+    setPlayingIndex(index);
+    setPlaysAll(continueAfter);
+  };
+
+  const stop = () => {
+    audioRef.current?.pause();
+    setPlayingIndex(null);
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio || playingIndex === null || audio.currentTime < segments[playingIndex].end) return;
+    if (playsAll && playingIndex + 1 < segments.length) {
+      playSegment(playingIndex + 1, true);
+    } else {
+      stop();
+    }
+  };
+
+  const totalSeconds = segments.reduce((sum, { start, end }) => sum + end - start, 0);
+
+  return (
+    <div className="mt-4 bg-slate-900 rounded-lg p-4 text-left">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <p className="text-sm text-slate-300">
+          <span className="font-semibold text-sky-300">{label}</span>
+          <span className="text-slate-500"> · {segments.length} segment{segments.length === 1 ? '' : 's'}, {totalSeconds.toFixed(1)} s</span>
+        </p>
+        <div className="flex gap-3 text-xs">
+          <button
+            onClick={() => (playingIndex === null ? playSegment(0, true) : stop())}
+            disabled={segments.length === 0}
+            className="text-sky-400 hover:underline font-semibold disabled:opacity-50"
+          >
+            {playingIndex === null ? 'Play all' : 'Stop'}
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:underline">
+            Close
+          </button>
+        </div>
+      </div>
+      {segments.length === 0 ? (
+        <p className="text-xs text-slate-500">No segments were found for this speaker.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {segments.map((segment, index) => (
+            <button
+              key={`${segment.start}-${segment.end}`}
+              onClick={() => playSegment(index, false)}
+              aria-pressed={playingIndex === index}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                playingIndex === index ? 'bg-sky-500 border-sky-500 text-white' : 'border-slate-600 text-slate-300 hover:border-sky-500'
+              }`}
+            >
+              {formatTime(segment.start)} – {formatTime(segment.end)}
+            </button>
+          ))}
+        </div>
+      )}
+      <audio
+        ref={audioRef}
+        src={audioSrc}
+        onTimeUpdate={handleTimeUpdate}
+        onPause={() => setPlayingIndex(null)}
+        className="hidden"
+      />
+    </div>
+  );
+};
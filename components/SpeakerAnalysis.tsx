@@ -0,0 +1,155 @@
+import React, { useState, useRef } from 'react';
+import { Loader } from './Loader';
+import { analyzeSpeakersInFile } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { isAbortError } from '../services/analysisErrors';
+import type { AcousticFeatures, ExportedProfile, SpeakerProfile } from '../types';
+
+interface SpeakerAnalysisProps {
+  provider: AnalysisProvider | null;
+  providerConfigError: string;
+  /** Rendered prompt template instructions, applied to each speaker. */
+  instructions: string;
+  /**
+   * Resolves to the clip as it would be analyzed. `offsetSeconds` is where it
+   * starts within the original clip, so segments can be played back there.
+   */
+  prepareInput: () => Promise<{ file: File; acousticFeatures: AcousticFeatures | null; offsetSeconds: number }>;
+  /** The label of the speaker whose segments are being played, if any. */
+  playingLabel: string | null;
+  onPlaySpeaker: (speaker: SpeakerProfile | null) => void;
+  onSelectResult: (result: ExportedProfile) => void;
+  onFeedback: (type: 'success' | 'error') => void;
+}
+
+const speakingSeconds = (speaker: SpeakerProfile): number =>
+  speaker.segments.reduce((sum, { start, end }) => sum + end - start, 0);
+
+/**
+ * Diarizes the current clip and shows a separate voice profile for each speaker.
+ */
+export const SpeakerAnalysis: React.FC<SpeakerAnalysisProps> = ({
+  provider,
+  providerConfigError,
+  instructions,
+  prepareInput,
+  playingLabel,
+  onPlaySpeaker,
+  onSelectResult,
+  onFeedback,
+}) => {
+  const [speakers, setSpeakers] = useState<SpeakerProfile[] | null>(null);
+  // The clip and provider the speakers came from, recorded with opened profiles.
+  const [source, setSource] = useState<{ file: File; provider: AnalysisProvider } | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleRun = async () => {
+    if (!provider) {
+      setError(providerConfigError);
+      onFeedback('error');
+      return;
+    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoading(true);
+    setError('');
+    setSpeakers(null);
+    onPlaySpeaker(null);
+    try {
+      const { file, acousticFeatures, offsetSeconds } = await prepareInput();
+      const result = await analyzeSpeakersInFile(provider, file, { acousticFeatures, instructions, signal: abortController.signal });
+      // Segments are relative to the analyzed region; shift them onto the original clip.
+      setSpeakers(result.map((speaker) => ({
+        ...speaker,
+        segments: speaker.segments.map(({ start, end }) => ({ start: start + offsetSeconds, end: end + offsetSeconds })),
+      })));
+      setSource({ file, provider });
+      onFeedback('success');
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      onFeedback('error');
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpen = (speaker: SpeakerProfile) => {
+    if (!source) return;
+    const { file, provider: usedProvider } = source;
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    onSelectResult({
+      name: `${baseName} – ${speaker.label}`,
+      fileName: file.name,
+      createdAt: Date.now(),
+      durationSeconds: speakingSeconds(speaker),
+      providerId: usedProvider.id,
+      model: usedProvider.model,
+      generation: usedProvider.generation,
+      profile: speaker.profile,
+    });
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">Speakers</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        For interviews and dialogues: find each speaker, mark when they talk, and describe every voice separately instead of blending them.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={handleRun}
+          disabled={isLoading || !provider}
+          className="inline-flex items-center justify-center gap-2 bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading && <Loader aria-hidden="true" />}
+          {isLoading ? 'Detecting...' : speakers ? 'Detect again' : 'Detect speakers'}
+        </button>
+        {isLoading && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="py-2 px-4 rounded-md border border-slate-600 text-slate-300 font-semibold hover:border-red-500 hover:text-red-300 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+
+      {speakers && (
+        <ul className="mt-4 space-y-3">
+          {speakers.map((speaker, index) => {
+            const isPlaying = playingLabel === speaker.label;
+            return (
+              <li key={`${index}-${speaker.label}`} className="bg-slate-900 p-4 rounded-lg">
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                  <h3 className="text-sm font-semibold text-slate-200">{speaker.label}</h3>
+                  <span className="text-xs text-slate-500">
+                    {speaker.segments.length} segment{speaker.segments.length === 1 ? '' : 's'} · {speakingSeconds(speaker).toFixed(1)} s · {Math.round(speaker.profile.confidence * 100)}% confidence
+                  </span>
+                </div>
+                <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap">{speaker.profile.ttsPrompt}</p>
+                <div className="flex gap-3 mt-3 text-sm">
+                  <button
+                    onClick={() => onPlaySpeaker(isPlaying ? null : speaker)}
+                    disabled={speaker.segments.length === 0}
+                    className="text-sky-400 hover:underline font-semibold disabled:opacity-50"
+                  >
+                    {isPlaying ? 'Hide segments' : 'Play segments'}
+                  </button>
+                  <button onClick={() => handleOpen(speaker)} className="text-sky-400 hover:underline font-semibold">
+                    Open profile
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
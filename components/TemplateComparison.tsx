@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Loader } from './Loader';
+import { ComparisonResult } from './ComparePanel';
+import { analyzeAudioFile } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { currentVersion, renderTemplateInstructions } from '../services/promptTemplates';
+import type { AcousticFeatures, PromptTemplate, VoiceProfile } from '../types';
+import { compareProfiles } from '../utils/voiceComparison';
+
+interface TemplateComparisonProps {
+  templates: PromptTemplate[];
+  activeTemplate: PromptTemplate;
+  /** The output language setting, applied to both templates. */
+  outputLanguage: string;
+  provider: AnalysisProvider | null;
+  providerConfigError: string;
+  /** Resolves to the clip as it would be analyzed (trimmed, with measurements). */
+  prepareInput: () => Promise<{ file: File; acousticFeatures: AcousticFeatures | null }>;
+  onFeedback: (type: 'success' | 'error') => void;
+}
+
+const templateLabel = (template: PromptTemplate): string => `${template.name} v${currentVersion(template).version}`;
+
+/**
+ * Runs the current clip through two prompt templates and shows the outputs side by side.
+ */
+export const TemplateComparison: React.FC<TemplateComparisonProps> = ({ templates, activeTemplate, outputLanguage, provider, providerConfigError, prepareInput, onFeedback }) => {
+  const otherTemplates = templates.filter((template) => template.id !== activeTemplate.id);
+  const [otherId, setOtherId] = useState<string>('');
+  const [results, setResults] = useState<{ labels: [string, string]; profiles: [VoiceProfile, VoiceProfile] } | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const other = otherTemplates.find((template) => template.id === otherId) ?? otherTemplates[0];
+
+  if (!other) return null;
+
+  const handleRun = async () => {
+    if (!provider) {
+      setError(providerConfigError);
+      onFeedback('error');
+      return;
+    }
+    setIsLoading(true);
+    setError('');
+    setResults(null);
+    try {
+      const { file, acousticFeatures } = await prepareInput();
+      const profiles = await Promise.all(
+        [activeTemplate, other].map((template) =>
+          analyzeAudioFile(provider, file, { acousticFeatures, instructions: renderTemplateInstructions(template, outputLanguage) })
+        )
+      );
+      setResults({ labels: [templateLabel(activeTemplate), templateLabel(other)], profiles: [profiles[0], profiles[1]] });
+      onFeedback('success');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      onFeedback('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">Compare Templates</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Analyze this clip with <span className="text-slate-200">{templateLabel(activeTemplate)}</span> and another template to see how the wording changes the output.
+      </p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={other.id}
+          onChange={(e) => setOtherId(e.target.value)}
+          disabled={isLoading}
+          className="flex-grow bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          aria-label="Template to compare with"
+        >
+          {otherTemplates.map((template) => (
+            <option key={template.id} value={template.id}>{templateLabel(template)}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleRun}
+          disabled={isLoading || !provider}
+          className="inline-flex items-center justify-center gap-2 bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading && <Loader aria-hidden="true" />}
+          {isLoading ? 'Running...' : 'Run both'}
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+
+      {results && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+            {results.profiles.map((profile, index) => (
+              <div key={results.labels[index]} className="bg-slate-900 p-4 rounded-lg">
+                <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-2">{results.labels[index]}</h3>
+                <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap">{profile.ttsPrompt}</p>
+                <p className="text-xs text-slate-500 mt-2">{profile.ttsPrompt.length} characters</p>
+              </div>
+            ))}
+          </div>
+          <ComparisonResult reference={results.profiles[0]} candidate={results.profiles[1]} comparison={compareProfiles(results.profiles[0], results.profiles[1])} />
+        </>
+      )}
+    </div>
+  );
+};
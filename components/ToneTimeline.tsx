@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Loader } from './Loader';
+import { formatTime } from './WaveformTrimmer';
+import { analyzeAudioFile } from '../services/analysisProvider';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { isAbortError } from '../services/analysisErrors';
+import type { AcousticFeatures, SegmentationMode, TimelineSegment } from '../types';
+import { extractAcousticFeatures } from '../utils/acousticFeatures';
+import { splitAudioFile } from '../utils/audioSegments';
+
+interface ToneTimelineProps {
+  provider: AnalysisProvider | null;
+  providerConfigError: string;
+  includeAcoustics: boolean;
+  /** Rendered prompt template instructions, applied to every window. */
+  instructions: string;
+  /** Resolves to the clip as it would be analyzed (trimmed, with measurements). */
+  prepareInput: () => Promise<{ file: File; acousticFeatures: AcousticFeatures | null }>;
+  onFeedback: (type: 'success' | 'error') => void;
+}
+
+type TrackKey = 'emotion' | 'energy' | 'pace';
+
+const WINDOW_LENGTHS = [5, 10, 15, 20];
+const TIMELINE_CONCURRENCY = 2;
+// Every window is a separate request; beyond this, a longer window or a trimmed clip is needed.
+const MAX_WINDOWS = 30;
+
+const TRACKS: { key: TrackKey; title: string; description: string }[] = [
+  { key: 'emotion', title: 'Emotion', description: 'Emotional intensity, as judged by the model' },
+  { key: 'energy', title: 'Energy', description: 'Measured speech loudness, relative to the rest of the clip' },
+  { key: 'pace', title: 'Pace', description: 'Speaking pace, as judged by the model' },
+];
+
+/**
+ * Returns a track's 0-10 value for a window. Energy is scaled between the
+ * quietest and loudest windows, since the arc matters more than absolute level.
+ */
+const trackValue = (key: TrackKey, segment: TimelineSegment, loudness: { min: number; max: number }): number | null => {
+  if (key === 'energy') {
+    if (!segment.features) return null;
+    const span = loudness.max - loudness.min;
+    return span > 0 ? ((segment.features.rmsDb - loudness.min) / span) * 10 : 5;
+  }
+  return segment.profile ? segment.profile.dimensions[key].scale : null;
+};
+
+/**
+ * Analyzes the clip window by window and plots how the delivery changes over
+ * time, synced to an audio player. Clicking a window seeks to it.
+ */
+export const ToneTimeline: React.FC<ToneTimelineProps> = ({ provider, providerConfigError, includeAcoustics, instructions, prepareInput, onFeedback }) => {
+  const [mode, setMode] = useState<SegmentationMode>('fixed');
+  const [windowSeconds, setWindowSeconds] = useState<number>(10);
+  const [segments, setSegments] = useState<TimelineSegment[] | null>(null);
+  const [analyzedFile, setAnalyzedFile] = useState<File | null>(null);
+  const [audioSrc, setAudioSrc] = useState<string>('');
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!analyzedFile) return;
+    const url = URL.createObjectURL(analyzedFile);
+    setAudioSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [analyzedFile]);
+
+  const updateSegment = useCallback((index: number, changes: Partial<TimelineSegment>) => {
+    setSegments((prev) => prev && prev.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)));
+  }, []);
+
+  const handleRun = async () => {
+    if (!provider) {
+      setError(providerConfigError);
+      onFeedback('error');
+      return;
+    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+    setIsRunning(true);
+    setError('');
+    setSegments(null);
+    setCurrentTime(0);
+
+    try {
+      const { file } = await prepareInput();
+      const windows = await splitAudioFile(file, mode, windowSeconds);
+      if (windows.length > MAX_WINDOWS) {
+        throw new Error(`That would be ${windows.length} windows. Choose a longer window or trim the clip to at most ${MAX_WINDOWS}.`);
+      }
+      signal.throwIfAborted();
+      setAnalyzedFile(file);
+      setSegments(windows.map(({ range }) => ({ ...range, status: 'pending', profile: null, features: null })));
+
+      let next = 0;
+      const runWindows = async (): Promise<void> => {
+        while (next < windows.length && !signal.aborted) {
+          const index = next++;
+          updateSegment(index, { status: 'running' });
+          // The energy track needs the measurements even when they are left out of the prompt.
+          const features = await extractAcousticFeatures(windows[index].file).catch(() => null);
+          try {
+            const profile = await analyzeAudioFile(provider, windows[index].file, {
+              acousticFeatures: includeAcoustics ? features : null,
+              instructions,
+              signal,
+            });
+            updateSegment(index, { status: 'done', profile, features });
+          } catch (err) {
+            if (isAbortError(err)) throw err;
+            updateSegment(index, { status: 'failed', features, error: err instanceof Error ? err.message : 'An unexpected error occurred.' });
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(TIMELINE_CONCURRENCY, windows.length) }, runWindows));
+      onFeedback('success');
+    } catch (err) {
+      if (isAbortError(err)) {
+        // Windows that never finished would otherwise look like they are still on their way.
+        setSegments((prev) => prev && prev.map((segment) => (
+          segment.status === 'pending' || segment.status === 'running' ? { ...segment, status: 'cancelled' } : segment
+        )));
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      onFeedback('error');
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const seekTo = (segment: TimelineSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = segment.start;
+    setCurrentTime(segment.start);
+    audio.play();
+  };
+
+  const duration = segments?.length ? segments[segments.length - 1].end : 0;
+  const measured = (segments ?? []).flatMap((segment) => (segment.features ? [segment.features.rmsDb] : []));
+  const loudness = { min: Math.min(...measured), max: Math.max(...measured) };
+  const activeSegment = segments?.find((segment) => currentTime >= segment.start && currentTime < segment.end) ?? segments?.[0];
+  const finishedCount = segments?.filter((segment) => segment.status === 'done' || segment.status === 'failed').length ?? 0;
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-2xl shadow-lg p-6 backdrop-blur-sm border border-slate-700">
+      <h2 className="text-lg font-semibold text-sky-400 mb-1">Tone Over Time</h2>
+      <p className="text-sm text-slate-400 mb-4">
+        Analyze the clip in windows to see the delivery arc, e.g. for audiobook and ad reads. Each window is a separate request.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <div className="flex gap-2" role="radiogroup" aria-label="How to split the clip">
+          {(['fixed', 'silence'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              role="radio"
+              aria-checked={mode === option}
+              disabled={isRunning}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                mode === option ? 'bg-sky-500 border-sky-500 text-white' : 'border-slate-600 text-slate-400 hover:border-sky-500 hover:text-sky-300'
+              }`}
+            >
+              {option === 'fixed' ? 'Fixed windows' : 'Split at pauses'}
+            </button>
+          ))}
+        </div>
+        {mode === 'fixed' && (
+          <label className="flex items-center gap-2 text-slate-400">
+            Window
+            <select
+              value={windowSeconds}
+              onChange={(e) => setWindowSeconds(Number(e.target.value))}
+              disabled={isRunning}
+              className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200"
+            >
+              {WINDOW_LENGTHS.map((seconds) => (
+                <option key={seconds} value={seconds}>{seconds} s</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !provider}
+          className="inline-flex items-center justify-center gap-2 bg-sky-500 text-white font-bold py-2 px-4 rounded-md hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning && <Loader aria-hidden="true" />}
+          {isRunning ? `Analyzing ${finishedCount} of ${segments?.length ?? '...'}` : 'Analyze timeline'}
+        </button>
+        {isRunning && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="py-2 px-4 rounded-md border border-slate-600 text-slate-300 font-semibold hover:border-red-500 hover:text-red-300 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+
+      {segments && duration > 0 && (
+        <div className="mt-4">
+          <audio
+            ref={audioRef}
+            src={audioSrc}
+            controls
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full mb-3"
+          />
+
+          <div className="space-y-2">
+            {TRACKS.map((track) => (
+              <div key={track.key} className="flex items-center gap-3">
+                <span className="w-16 flex-shrink-0 text-xs text-slate-400" title={track.description}>{track.title}</span>
+                <div className="relative flex-grow h-12 bg-slate-900 rounded-md overflow-hidden flex">
+                  {segments.map((segment) => {
+                    const value = trackValue(track.key, segment, loudness);
+                    const isActive = segment === activeSegment;
+                    return (
+                      <button
+                        key={segment.start}
+                        onClick={() => seekTo(segment)}
+                        className={`relative h-full border-r border-slate-800 last:border-r-0 hover:bg-slate-800 ${segment.status === 'running' ? 'animate-pulse bg-slate-800' : ''}`}
+                        style={{ width: `${((segment.end - segment.start) / duration) * 100}%` }}
+                        aria-label={`${track.title}, ${formatTime(segment.start)} to ${formatTime(segment.end)}: ${value === null ? 'not available' : `${value.toFixed(1)} of 10`}`}
+                      >
+                        {value !== null && (
+                          <span
+                            className={`absolute bottom-0 inset-x-0.5 rounded-t-sm ${isActive ? 'bg-sky-400' : 'bg-sky-500/50'}`}
+                            style={{ height: `${Math.max(4, value * 10)}%` }}
+                          />
+                        )}
+                        {segment.status === 'failed' && track.key !== 'energy' && (
+                          <span className="absolute inset-0 flex items-center justify-center text-red-400 text-xs">!</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none"
+                    style={{ left: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+                    aria-hidden="true"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {activeSegment && (
+            <div className="mt-4 bg-slate-900 p-4 rounded-lg text-sm">
+              <p className="text-xs text-slate-500 mb-2">{formatTime(activeSegment.start)} – {formatTime(activeSegment.end)}</p>
+              {activeSegment.profile ? (
+                <>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mb-2">
+                    <dt className="text-slate-400">Emotion</dt>
+                    <dd className="text-slate-200">{activeSegment.profile.dimensions.emotion.label} ({activeSegment.profile.dimensions.emotion.scale}/10)</dd>
+                    <dt className="text-slate-400">Pace</dt>
+                    <dd className="text-slate-200">
+                      {activeSegment.profile.dimensions.pace.label} ({activeSegment.profile.dimensions.pace.scale}/10)
+                      {activeSegment.features?.speakingRate != null && `, ${activeSegment.features.speakingRate.toFixed(1)} syllables/s`}
+                    </dd>
+                    {activeSegment.features && (
+                      <>
+                        <dt className="text-slate-400">Energy</dt>
+                        <dd className="text-slate-200">{activeSegment.features.rmsDb.toFixed(1)} dBFS</dd>
+                      </>
+                    )}
+                  </dl>
+                  <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">{activeSegment.profile.ttsPrompt}</p>
+                </>
+              ) : activeSegment.error ? (
+                <p className="text-red-400">{activeSegment.error}</p>
+              ) : activeSegment.status === 'cancelled' ? (
+                <p className="text-slate-500">This window was not analyzed because the run was cancelled.</p>
+              ) : (
+                <p className="text-slate-500">Waiting for this window's analysis...</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
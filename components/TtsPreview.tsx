@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader } from './Loader';
+import { ComparisonResult } from './ComparePanel';
+import type { TtsProvider } from '../services/ttsProvider';
+import { isAbortError } from '../services/analysisErrors';
+import type { VoiceProfile } from '../types';
+import { compareProfiles } from '../utils/voiceComparison';
+import { DEFAULT_SAMPLE_TEXT } from '../utils/ttsTargets';
+
+interface TtsPreviewProps {
+  profile: VoiceProfile;
+  /** The analyzed clip, played next to the preview when available. */
+  originalAudio: Blob | null;
+  ttsProvider: TtsProvider | null;
+  ttsConfigError: string;
+  /** Analyzes the synthesized audio; omitted when no analysis provider is ready. */
+  onAnalyze?: (file: File, signal: AbortSignal) => Promise<VoiceProfile>;
+}
+
+/**
+ * Keeps an object URL for a blob alive for as long as the blob is shown.
+ */
+const useObjectUrl = (blob: Blob | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+};
+
+export const TtsPreview: React.FC<TtsPreviewProps> = ({ profile, originalAudio, ttsProvider, ttsConfigError, onAnalyze }) => {
+  const [script, setScript] = useState<string>(DEFAULT_SAMPLE_TEXT);
+  const [status, setStatus] = useState<'idle' | 'synthesizing' | 'analyzing'>('idle');
+  const [preview, setPreview] = useState<File | null>(null);
+  const [previewProfile, setPreviewProfile] = useState<VoiceProfile | null>(null);
+  const [error, setError] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const originalUrl = useObjectUrl(originalAudio);
+  const previewUrl = useObjectUrl(preview);
+
+  // A new result invalidates the previous preview.
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+    setPreview(null);
+    setPreviewProfile(null);
+    setError('');
+  }, [profile]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const run = async (task: (signal: AbortSignal) => Promise<void>, nextStatus: 'synthesizing' | 'analyzing') => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStatus(nextStatus);
+    setError('');
+    try {
+      await task(abortController.signal);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setStatus('idle');
+      }
+    }
+  };
+
+  const handlePreview = () => {
+    if (!ttsProvider) return;
+    setPreview(null);
+    setPreviewProfile(null);
+    run(async (signal) => {
+      const audio = await ttsProvider.synthesize({ description: profile.ttsPrompt, script: script.trim() || DEFAULT_SAMPLE_TEXT, profile, signal });
+      setPreview(new File([audio], 'voice-preview.wav', { type: audio.type || 'audio/wav' }));
+    }, 'synthesizing');
+  };
+
+  const handleAnalyzePreview = () => {
+    if (!preview || !onAnalyze) return;
+    run(async (signal) => {
+      setPreviewProfile(await onAnalyze(preview, signal));
+    }, 'analyzing');
+  };
+
+  const isBusy = status !== 'idle';
+
+  return (
+    <div className="mt-6 border-t border-slate-700 pt-6">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wide mb-2">Preview Voice</h3>
+      {ttsProvider ? (
+        <>
+          <label className="block">
+            <span className="text-xs text-slate-400">Sample script</span>
+            <textarea
+              value={script}
+              onChange={(e) => setScript(e.target.value)}
+              rows={2}
+              disabled={isBusy}
+              className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <button
+              onClick={handlePreview}
+              disabled={isBusy}
+              className="inline-flex items-center gap-2 py-2 px-4 rounded-full bg-sky-500 text-white text-sm font-semibold hover:bg-sky-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+            >
+              {status === 'synthesizing' && <Loader aria-hidden="true" />}
+              {status === 'synthesizing' ? 'Synthesizing...' : 'Preview voice'}
+            </button>
+            {preview && onAnalyze && (
+              <button
+                onClick={handleAnalyzePreview}
+                disabled={isBusy}
+                className="inline-flex items-center gap-2 py-2 px-4 rounded-full border border-slate-600 text-slate-300 text-sm hover:border-sky-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {status === 'analyzing' && <Loader aria-hidden="true" />}
+                {status === 'analyzing' ? 'Analyzing...' : 'Re-analyze preview'}
+              </button>
+            )}
+            {isBusy && (
+              <button onClick={() => abortControllerRef.current?.abort()} className="text-sm text-slate-400 hover:text-red-300 hover:underline">
+                Cancel
+              </button>
+            )}
+            <span className="text-xs text-slate-500 ml-auto">via {ttsProvider.model}</span>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-500">{ttsConfigError}</p>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-2" role="alert">{error}</p>}
+
+      {(originalUrl || previewUrl) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+          {originalUrl && (
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Original</p>
+              <audio src={originalUrl} controls className="w-full" />
+            </div>
+          )}
+          {previewUrl && (
+            <div>
+              <p className="text-xs text-slate-500 mb-1">Synthesized</p>
+              <audio src={previewUrl} controls autoPlay className="w-full" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {previewProfile && (
+        <ComparisonResult reference={profile} candidate={previewProfile} comparison={compareProfiles(profile, previewProfile)} />
+      )}
+    </div>
+  );
+};
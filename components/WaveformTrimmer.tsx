@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { TrimRange } from '../types';
+import { decodeToMono } from '../utils/acousticFeatures';
+import { t } from '../i18n/messages';
+
+interface WaveformTrimmerProps {
+  file: File;
+  /** Receives the selected region, or null when the whole clip is selected. */
+  onSelectionChange: (range: TrimRange | null) => void;
+  disabled: boolean;
+}
+
+export const RECOMMENDED_MIN_SECONDS = 30;
+export const RECOMMENDED_MAX_SECONDS = 60;
+
+const PEAK_COUNT = 400;
+const PEAK_SAMPLE_RATE = 8000;
+const MIN_SELECTION_SECONDS = 0.5;
+const KEYBOARD_STEP_SECONDS = 0.5;
+
+export const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Reduces a mono buffer to the absolute peak of each of `count` equal slices.
+ */
+const computePeaks = (buffer: AudioBuffer, count: number): number[] => {
+  const samples = buffer.getChannelData(0);
+  const sliceSize = Math.max(1, Math.floor(samples.length / count));
+  const peaks: number[] = [];
+  for (let i = 0; i < count; i++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (i + 1) * sliceSize);
+    for (let j = i * sliceSize; j < end; j++) {
+      peak = Math.max(peak, Math.abs(samples[j]));
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+};
+
+export const WaveformTrimmer: React.FC<WaveformTrimmerProps> = ({ file, onSelectionChange, disabled }) => {
+  const [range, setRange] = useState<TrimRange | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [duration, setDuration] = useState<number>(0);
+  const [decodeError, setDecodeError] = useState<string>('');
+  const [isPreviewing, setIsPreviewing] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const draggingRef = useRef<'start' | 'end' | null>(null);
+  const [audioSrc, setAudioSrc] = useState<string>('');
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setAudioSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const onRangeChange = useCallback((next: TrimRange) => {
+    setRange(next);
+    onSelectionChange(next.start <= 0 && next.end >= duration ? null : next);
+  }, [duration, onSelectionChange]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setPeaks([]);
+    setRange(null);
+    setDecodeError('');
+    decodeToMono(file, PEAK_SAMPLE_RATE)
+      .then((buffer) => {
+        if (!isCurrent) return;
+        setPeaks(computePeaks(buffer, PEAK_COUNT));
+        setDuration(buffer.duration);
+        setRange({ start: 0, end: buffer.duration });
+        onSelectionChange(null);
+      })
+      .catch((err) => {
+        console.error('Failed to decode audio for the waveform:', err);
+        if (isCurrent) setDecodeError(t('trimmer.decodeError'));
+      });
+    return () => {
+      isCurrent = false;
+    };
+    // onSelectionChange is intentionally omitted: the selection only resets when the file changes.
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || peaks.length === 0) return;
+
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    const barWidth = width / peaks.length;
+    peaks.forEach((peak, index) => {
+      const time = (index / peaks.length) * duration;
+      const isSelected = !range || (time >= range.start && time <= range.end);
+      ctx.fillStyle = isSelected ? '#38bdf8' : '#475569';
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillRect(index * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [peaks, duration, range]);
+
+  const timeFromClientX = (clientX: number): number => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const moveHandle = useCallback((handle: 'start' | 'end', time: number) => {
+    if (!range) return;
+    if (handle === 'start') {
+      onRangeChange({ start: Math.max(0, Math.min(time, range.end - MIN_SELECTION_SECONDS)), end: range.end });
+    } else {
+      onRangeChange({ start: range.start, end: Math.min(duration, Math.max(time, range.start + MIN_SELECTION_SECONDS)) });
+    }
+  }, [range, duration, onRangeChange]);
+
+  const handlePointerDown = (handle: 'start' | 'end') => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    draggingRef.current = handle;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) {
+      moveHandle(draggingRef.current, timeFromClientX(e.clientX));
+    }
+  };
+
+  const handlePointerUp = () => {
+    draggingRef.current = null;
+  };
+
+  const handleKeyDown = (handle: 'start' | 'end') => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!range || disabled) return;
+    const current = handle === 'start' ? range.start : range.end;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      moveHandle(handle, current - KEYBOARD_STEP_SECONDS);
+    } else if (e.key === 'ArrowRight' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveHandle(handle, current + KEYBOARD_STEP_SECONDS);
+    }
+  };
+
+  const handlePreview = () => {
+    const audio = audioRef.current;
+    if (!audio || !range) return;
+    if (isPreviewing) {
+      audio.pause();
+      return;
+    }
+    audio.currentTime = range.start;
+    audio.play();
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (audio && range && audio.currentTime >= range.end) {
+      audio.pause();
+    }
+  };
+
+  if (decodeError) {
+    return <p className="mt-4 text-xs text-slate-500">{decodeError}</p>;
+  }
+
+  if (peaks.length === 0 || !range) {
+    return <p className="mt-4 text-xs text-slate-500">{t('trimmer.loading')}</p>;
+  }
+
+  const selectionLength = range.end - range.start;
+  const isOutsideRecommended = selectionLength < RECOMMENDED_MIN_SECONDS || selectionLength > RECOMMENDED_MAX_SECONDS;
+  const startPercent = (range.start / duration) * 100;
+  const endPercent = (range.end / duration) * 100;
+
+  return (
+    <div className="mt-4 text-left">
+      <div
+        ref={containerRef}
+        className={`relative h-20 bg-slate-900 rounded-md select-none touch-none ${disabled ? 'opacity-50' : ''}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <canvas ref={canvasRef} width={800} height={80} className="w-full h-full" aria-hidden="true" />
+        {(['start', 'end'] as const).map((handle) => {
+          const value = handle === 'start' ? range.start : range.end;
+          return (
+            <div
+              key={handle}
+              role="slider"
+              tabIndex={disabled ? -1 : 0}
+              aria-label={t(handle === 'start' ? 'trimmer.selectionStart' : 'trimmer.selectionEnd')}
+              aria-valuemin={0}
+              aria-valuemax={Math.round(duration * 10) / 10}
+              aria-valuenow={Math.round(value * 10) / 10}
+              aria-valuetext={formatTime(value)}
+              onPointerDown={handlePointerDown(handle)}
+              onKeyDown={handleKeyDown(handle)}
+              className="absolute inset-y-0 w-3 -ml-1.5 cursor-ew-resize flex justify-center focus:outline-none group"
+              style={{ left: `${handle === 'start' ? startPercent : endPercent}%` }}
+            >
+              <div className="w-1 h-full bg-white/80 rounded group-focus:bg-sky-300" />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-slate-400">
+        <span>
+          {t('trimmer.selection', { start: formatTime(range.start), end: formatTime(range.end), length: selectionLength.toFixed(1), duration: duration.toFixed(1) })}
+        </span>
+        <div className="flex gap-3">
+          <button onClick={handlePreview} disabled={disabled} className="text-sky-400 hover:underline font-semibold">
+            {t(isPreviewing ? 'trimmer.stopPreview' : 'trimmer.preview')}
+          </button>
+          <button
+            onClick={() => onRangeChange({ start: 0, end: duration })}
+            disabled={disabled}
+            className="text-slate-400 hover:underline"
+          >
+            {t('trimmer.reset')}
+          </button>
+        </div>
+      </div>
+
+      {isOutsideRecommended && (
+        <p className="mt-2 text-xs text-yellow-400" role="status">
+          {t('trimmer.outsideRecommended', { length: selectionLength.toFixed(1), min: RECOMMENDED_MIN_SECONDS, max: RECOMMENDED_MAX_SECONDS })}
+        </p>
+      )}
+
+      <audio
+        ref={audioRef}
+        src={audioSrc}
+        onPlay={() => setIsPreviewing(true)}
+        onPause={() => setIsPreviewing(false)}
+        onTimeUpdate={handleTimeUpdate}
+        className="hidden"
+      />
+    </div>
+  );
+};
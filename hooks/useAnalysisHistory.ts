@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ExportedProfile, HistoryEntry, VoiceProfile } from '../types';
+import type { AnalysisProvider } from '../services/analysisProvider';
+import { deleteHistoryEntry, listHistoryEntries, putHistoryEntry } from '../services/historyStore';
+import { getAudioDuration } from '../utils/fileUtils';
+
+/**
+ * Loads the local analysis history and exposes mutations that keep the
+ * in-memory list and IndexedDB in sync.
+ */
+export const useAnalysisHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [historyError, setHistoryError] = useState<string>('');
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((err) => {
+        console.error('Failed to load analysis history:', err);
+        setHistoryError('Your saved analyses could not be loaded.');
+      });
+  }, []);
+
+  const saveAnalysis = useCallback(async (file: File, profile: VoiceProfile, provider: AnalysisProvider) => {
+    const entry: HistoryEntry = {
+      id: crypto.randomUUID(),
+      name: file.name.replace(/\.[^.]+$/, ''),
+      fileName: file.name,
+      audio: file,
+      durationSeconds: await getAudioDuration(file),
+      createdAt: Date.now(),
+      providerId: provider.id,
+      model: provider.model,
+      generation: provider.generation,
+      profile,
+      tags: [],
+    };
+    try {
+      await putHistoryEntry(entry);
+      setEntries((prev) => [entry, ...prev]);
+    } catch (err) {
+      console.error('Failed to save analysis to history:', err);
+      setHistoryError('The analysis could not be saved to your history.');
+    }
+  }, []);
+
+  /**
+   * Adds previously exported profiles to the history. Imports carry no audio,
+   * so the entries can be opened and re-exported but not re-analyzed.
+   * @returns {Promise<number>} How many profiles were imported.
+   */
+  const importProfiles = useCallback(async (profiles: ExportedProfile[]): Promise<number> => {
+    const now = Date.now();
+    const imported: HistoryEntry[] = profiles.map((exported, index) => ({
+      id: crypto.randomUUID(),
+      name: exported.name,
+      fileName: exported.fileName ?? '',
+      audio: null,
+      durationSeconds: exported.durationSeconds ?? null,
+      // Keep the import order stable under the newest-first sort.
+      createdAt: exported.createdAt ?? now - index,
+      providerId: exported.providerId ?? 'imported',
+      model: exported.model ?? 'unknown',
+      generation: exported.generation,
+      profile: exported.profile,
+      tags: exported.tags ?? [],
+    }));
+    try {
+      await Promise.all(imported.map(putHistoryEntry));
+      setEntries((prev) => [...imported, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+      return imported.length;
+    } catch (err) {
+      console.error('Failed to import profiles into history:', err);
+      setHistoryError('The profiles could not be imported.');
+      return 0;
+    }
+  }, []);
+
+  const updateEntry = useCallback(async (id: string, changes: Partial<Pick<HistoryEntry, 'name' | 'tags'>>) => {
+    const existing = entries.find((entry) => entry.id === id);
+    if (!existing) return;
+    const updated = { ...existing, ...changes };
+    try {
+      await putHistoryEntry(updated);
+      setEntries((prev) => prev.map((entry) => (entry.id === id ? updated : entry)));
+    } catch (err) {
+      console.error('Failed to update history entry:', err);
+      setHistoryError('The change could not be saved.');
+    }
+  }, [entries]);
+
+  const removeEntry = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries((prev) => prev.filter((entry) => entry.id !== id));
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setHistoryError('The analysis could not be deleted.');
+    }
+  }, []);
+
+  return { entries, historyError, saveAnalysis, importProfiles, updateEntry, removeEntry };
+};
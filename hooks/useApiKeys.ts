@@ -0,0 +1,89 @@
+import { useState, useCallback } from 'react';
+import {
+  clearLegacyKey,
+  deleteKeyProfile,
+  listKeyProfiles,
+  readLegacyKey,
+  saveKeyProfile,
+  unlockKeyProfile,
+} from '../services/apiKeyVault';
+import type { ApiKeyProfile } from '../services/apiKeyVault';
+
+/**
+ * The key requests are made with. It only ever lives in memory: profiles are
+ * decrypted on unlock, and session keys are never written anywhere.
+ */
+export interface ActiveApiKey {
+  apiKey: string;
+  /** `legacy` is a key an older version saved unencrypted. */
+  source: 'profile' | 'session' | 'legacy';
+  /** The unlocked profile, when `source` is `profile`. */
+  profileId: string | null;
+}
+
+/**
+ * Manages the encrypted key profiles and which key is currently unlocked.
+ */
+export const useApiKeys = () => {
+  const [profiles, setProfiles] = useState<ApiKeyProfile[]>(listKeyProfiles);
+  const [legacyKey, setLegacyKey] = useState<string | null>(readLegacyKey);
+  const [activeKey, setActiveKey] = useState<ActiveApiKey | null>(() => {
+    const saved = readLegacyKey();
+    return saved ? { apiKey: saved, source: 'legacy', profileId: null } : null;
+  });
+  // Remembered so the unlock form offers the profile that was used last.
+  const [lastProfileId, setLastProfileId] = useState<string | null>(() => localStorage.getItem('ACTIVE_API_KEY_PROFILE'));
+
+  const activateProfile = useCallback((id: string, apiKey: string) => {
+    setActiveKey({ apiKey, source: 'profile', profileId: id });
+    setLastProfileId(id);
+    localStorage.setItem('ACTIVE_API_KEY_PROFILE', id);
+  }, []);
+
+  /**
+   * Encrypts a key under a new profile and unlocks it. Replaces any
+   * unencrypted key left by an older version.
+   */
+  const saveProfile = useCallback(async (name: string, apiKey: string, passphrase: string) => {
+    const profile = await saveKeyProfile(name, apiKey, passphrase);
+    setProfiles(listKeyProfiles());
+    setLegacyKey(null);
+    activateProfile(profile.id, apiKey);
+  }, [activateProfile]);
+
+  /**
+   * @throws {Error} If the passphrase is wrong.
+   */
+  const unlockProfile = useCallback(async (id: string, passphrase: string) => {
+    const profile = profiles.find((candidate) => candidate.id === id);
+    if (!profile) return;
+    activateProfile(id, await unlockKeyProfile(profile, passphrase));
+  }, [activateProfile, profiles]);
+
+  const setSessionKey = useCallback((apiKey: string) => {
+    setActiveKey({ apiKey, source: 'session', profileId: null });
+  }, []);
+
+  /** Drops the key from memory. Saved profiles stay encrypted in storage. */
+  const lock = useCallback(() => {
+    setActiveKey(null);
+  }, []);
+
+  const forgetProfile = useCallback((id: string) => {
+    deleteKeyProfile(id);
+    setProfiles(listKeyProfiles());
+    setActiveKey((prev) => (prev?.profileId === id ? null : prev));
+    if (lastProfileId === id) {
+      setLastProfileId(null);
+      localStorage.removeItem('ACTIVE_API_KEY_PROFILE');
+    }
+  }, [lastProfileId]);
+
+  const forgetLegacyKey = useCallback(() => {
+    clearLegacyKey();
+    setLegacyKey(null);
+    setActiveKey((prev) => (prev?.source === 'legacy' ? null : prev));
+  }, []);
+
+  return { profiles, activeKey, legacyKey, lastProfileId, saveProfile, unlockProfile, setSessionKey, lock, forgetProfile, forgetLegacyKey };
+};
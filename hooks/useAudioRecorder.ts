@@ -0,0 +1,178 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { t } from '../i18n/messages';
+
+interface UseAudioRecorderOptions {
+  onRecordingComplete: (file: File) => void;
+  onError: (message: string) => void;
+}
+
+export const DEFAULT_MAX_RECORDING_SECONDS = 90;
+const TIMER_INTERVAL_MS = 200;
+
+const loadMaxDuration = (): number => {
+  const saved = Number(localStorage.getItem('MAX_RECORDING_SECONDS'));
+  return saved > 0 ? saved : DEFAULT_MAX_RECORDING_SECONDS;
+};
+
+/**
+ * Wraps MediaRecorder microphone capture. Each caller gets an independent
+ * recorder, so several uploaders can record on the same page. While recording,
+ * an AnalyserNode on the input stream is exposed for level metering.
+ */
+export const useAudioRecorder = ({ onRecordingComplete, onError }: UseAudioRecorderOptions) => {
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [audioURL, setAudioURL] = useState<string | null>(null);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
+  const [maxDurationSeconds, setMaxDurationSecondsState] = useState<number>(loadMaxDuration);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>(() => localStorage.getItem('RECORDING_DEVICE_ID') ?? '');
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    setInputDevices(devices.filter((device) => device.kind === 'audioinput'));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const stopMonitoring = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setAnalyser(null);
+  }, []);
+
+  // On unmount, release the microphone. The recording is dropped: the caller is gone.
+  useEffect(() => () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder) {
+      mediaRecorder.onstop = null;
+      if (mediaRecorder.state === 'recording') mediaRecorder.stop();
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    stopMonitoring();
+  }, [stopMonitoring]);
+
+  // Each recording gets its own object URL; release it once it is replaced, cleared or the caller unmounts.
+  useEffect(() => () => {
+    if (audioURL) URL.revokeObjectURL(audioURL);
+  }, [audioURL]);
+
+  const stopRecording = useCallback(() => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+      mediaRecorderRef.current.stop();
+      setIsRecording(false);
+    }
+    stopMonitoring();
+  }, [stopMonitoring]);
+
+  const clearRecording = useCallback(() => {
+    setAudioURL(null);
+    setElapsedSeconds(0);
+  }, []);
+
+  const selectDevice = useCallback((id: string) => {
+    setDeviceId(id);
+    localStorage.setItem('RECORDING_DEVICE_ID', id);
+  }, []);
+
+  const setMaxDurationSeconds = useCallback((seconds: number) => {
+    setMaxDurationSecondsState(seconds);
+    localStorage.setItem('MAX_RECORDING_SECONDS', String(seconds));
+  }, []);
+
+  const startRecording = useCallback(async () => {
+    setAudioURL(null);
+    setElapsedSeconds(0);
+
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      onError(t('recorder.error.unsupported'));
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+      });
+      streamRef.current = stream;
+      // Device labels are only exposed once microphone permission has been granted.
+      refreshDevices();
+
+      const mediaRecorder = new MediaRecorder(stream);
+      mediaRecorderRef.current = mediaRecorder;
+      audioChunksRef.current = [];
+
+      mediaRecorder.ondataavailable = (event) => {
+        audioChunksRef.current.push(event.data);
+      };
+
+      mediaRecorder.onstop = () => {
+        const mimeType = mediaRecorder.mimeType || 'audio/webm';
+        const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
+        const recordedFile = new File([audioBlob], `recording.${mimeType.split('/')[1].split(';')[0]}`, { type: mimeType });
+
+        setAudioURL(URL.createObjectURL(audioBlob));
+        onRecordingComplete(recordedFile);
+
+        stream.getTracks().forEach(track => track.stop());
+        if (streamRef.current === stream) streamRef.current = null;
+      };
+
+      const audioContext = new AudioContext();
+      const analyserNode = audioContext.createAnalyser();
+      analyserNode.fftSize = 2048;
+      audioContext.createMediaStreamSource(stream).connect(analyserNode);
+      audioContextRef.current = audioContext;
+      setAnalyser(analyserNode);
+
+      mediaRecorder.start();
+      setIsRecording(true);
+
+      const startedAt = performance.now();
+      timerRef.current = window.setInterval(() => {
+        const elapsed = (performance.now() - startedAt) / 1000;
+        setElapsedSeconds(elapsed);
+        if (elapsed >= maxDurationSeconds) {
+          stopRecording();
+        }
+      }, TIMER_INTERVAL_MS);
+    } catch (err) {
+      console.error("Error accessing microphone:", err);
+      if ((err as { name?: string } | null)?.name === 'OverconstrainedError') {
+        selectDevice('');
+        onError(t('recorder.error.deviceUnavailable'));
+      } else {
+        onError(t('recorder.error.denied'));
+      }
+    }
+  }, [onRecordingComplete, onError, deviceId, maxDurationSeconds, refreshDevices, selectDevice, stopRecording]);
+
+  return {
+    isRecording,
+    audioURL,
+    analyser,
+    elapsedSeconds,
+    maxDurationSeconds,
+    setMaxDurationSeconds,
+    inputDevices,
+    deviceId,
+    selectDevice,
+    startRecording,
+    stopRecording,
+    clearRecording,
+  };
+};
@@ -0,0 +1,83 @@
+import { useState, useCallback } from 'react';
+import type { VoicePreset } from '../types';
+import { SEED_PRESETS } from '../services/presetLibrary';
+import type { PackedPreset } from '../services/presetLibrary';
+
+const loadPresets = (): VoicePreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('VOICE_PRESETS') ?? '[]');
+    return [...SEED_PRESETS, ...(Array.isArray(saved) ? saved : []).filter((preset: VoicePreset) => !preset.builtIn)];
+  } catch {
+    return SEED_PRESETS;
+  }
+};
+
+const savePresets = (presets: VoicePreset[]) => {
+  // The seed pack ships with the app and is never persisted.
+  localStorage.setItem('VOICE_PRESETS', JSON.stringify(presets.filter((preset) => !preset.builtIn)));
+};
+
+const createPreset = (fields: PackedPreset): VoicePreset => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  builtIn: false,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Two presets are the same if they would produce the same voice under the same name.
+const isSamePreset = (a: PackedPreset, b: PackedPreset): boolean =>
+  a.name === b.name && a.profile.ttsPrompt === b.profile.ttsPrompt;
+
+/**
+ * Manages the voice preset library: the built-in seed pack plus the presets
+ * saved in this browser.
+ */
+export const usePresetLibrary = () => {
+  const [presets, setPresets] = useState<VoicePreset[]>(loadPresets);
+
+  const updatePresets = useCallback((update: (prev: VoicePreset[]) => VoicePreset[]) => {
+    setPresets((prev) => {
+      const next = update(prev);
+      savePresets(next);
+      return next;
+    });
+  }, []);
+
+  const savePreset = useCallback((fields: PackedPreset) => {
+    updatePresets((prev) => [...prev, createPreset(fields)]);
+  }, [updatePresets]);
+
+  const updatePreset = useCallback((id: string, changes: Partial<PackedPreset>) => {
+    updatePresets((prev) => prev.map((preset) => (
+      preset.id === id && !preset.builtIn ? { ...preset, ...changes, updatedAt: Date.now() } : preset
+    )));
+  }, [updatePresets]);
+
+  /**
+   * Creates an editable copy of a preset, built-in or not.
+   */
+  const duplicatePreset = useCallback((source: VoicePreset) => {
+    const { name, category, tags, notes, profile } = source;
+    updatePresets((prev) => [...prev, createPreset({ name: `${name} (copy)`, category, tags, notes, source: name, profile })]);
+  }, [updatePresets]);
+
+  const deletePreset = useCallback((id: string) => {
+    updatePresets((prev) => prev.filter((preset) => preset.id !== id || preset.builtIn));
+  }, [updatePresets]);
+
+  /**
+   * Adds the presets from a pack, skipping any that are already in the library.
+   * @returns {number} The number of presets added.
+   */
+  const importPresets = useCallback((incoming: PackedPreset[]): number => {
+    const added: PackedPreset[] = [];
+    for (const preset of incoming) {
+      if (![...presets, ...added].some((existing) => isSamePreset(existing, preset))) added.push(preset);
+    }
+    if (added.length > 0) updatePresets((prev) => [...prev, ...added.map(createPreset)]);
+    return added.length;
+  }, [presets, updatePresets]);
+
+  return { presets, savePreset, updatePreset, duplicatePreset, deletePreset, importPresets };
+};
@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react';
+import type { PromptTemplate, PromptTemplateVariables } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, DEFAULT_TEMPLATE_ID, currentVersion } from '../services/promptTemplates';
+
+const loadTemplates = (): PromptTemplate[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('PROMPT_TEMPLATES') ?? '[]');
+    return [DEFAULT_PROMPT_TEMPLATE, ...(Array.isArray(saved) ? saved : []).filter((template: PromptTemplate) => !template.builtIn)];
+  } catch {
+    return [DEFAULT_PROMPT_TEMPLATE];
+  }
+};
+
+const saveTemplates = (templates: PromptTemplate[]) => {
+  // The built-in template ships with the app and is never persisted.
+  localStorage.setItem('PROMPT_TEMPLATES', JSON.stringify(templates.filter((template) => !template.builtIn)));
+};
+
+/**
+ * Manages the saved prompt templates and which one is active. Edits never
+ * overwrite a version; they append a new one.
+ */
+export const usePromptTemplates = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [activeTemplateId, setActiveTemplateIdState] = useState<string>(
+    () => localStorage.getItem('ACTIVE_PROMPT_TEMPLATE') ?? DEFAULT_TEMPLATE_ID
+  );
+
+  const updateTemplates = useCallback((update: (prev: PromptTemplate[]) => PromptTemplate[]) => {
+    setTemplates((prev) => {
+      const next = update(prev);
+      saveTemplates(next);
+      return next;
+    });
+  }, []);
+
+  const setActiveTemplateId = useCallback((id: string) => {
+    setActiveTemplateIdState(id);
+    localStorage.setItem('ACTIVE_PROMPT_TEMPLATE', id);
+  }, []);
+
+  /**
+   * Creates an editable copy of a template, starting from its current version.
+   * @returns {string} The new template's id.
+   */
+  const duplicateTemplate = useCallback((source: PromptTemplate, name: string): string => {
+    const { body, variables } = currentVersion(source);
+    const template: PromptTemplate = {
+      id: crypto.randomUUID(),
+      name,
+      builtIn: false,
+      versions: [{ version: 1, body, variables, createdAt: Date.now(), note: `Copied from ${source.name}` }],
+    };
+    updateTemplates((prev) => [...prev, template]);
+    return template.id;
+  }, [updateTemplates]);
+
+  const saveVersion = useCallback((id: string, body: string, variables: PromptTemplateVariables, note: string) => {
+    updateTemplates((prev) => prev.map((template) => {
+      if (template.id !== id || template.builtIn) return template;
+      const version = currentVersion(template).version + 1;
+      return { ...template, versions: [...template.versions, { version, body, variables, createdAt: Date.now(), note }] };
+    }));
+  }, [updateTemplates]);
+
+  const renameTemplate = useCallback((id: string, name: string) => {
+    updateTemplates((prev) => prev.map((template) => (template.id === id && !template.builtIn ? { ...template, name } : template)));
+  }, [updateTemplates]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    updateTemplates((prev) => prev.filter((template) => template.id !== id || template.builtIn));
+    if (activeTemplateId === id) setActiveTemplateId(DEFAULT_TEMPLATE_ID);
+  }, [activeTemplateId, setActiveTemplateId, updateTemplates]);
+
+  const activeTemplate = templates.find((template) => template.id === activeTemplateId) ?? DEFAULT_PROMPT_TEMPLATE;
+
+  return { templates, activeTemplate, setActiveTemplateId, duplicateTemplate, saveVersion, renameTemplate, deleteTemplate };
+};
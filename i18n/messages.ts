@@ -0,0 +1,107 @@
+/**
+ * UI strings for the app shell, the audio uploader, the recorder and the
+ * waveform trimmer, by message id.
+ * `{name}` marks a value filled in by `t`. English is the source catalog.
+ */
+const en = {
+  'app.audioFeedback.enable': 'Enable audio feedback',
+  'app.audioFeedback.disable': 'Disable audio feedback',
+  'app.mode.analyze': 'Analyze a Voice',
+  'app.mode.compare': 'Compare Two Voices',
+  'app.audio.title': '1. Provide Your Audio',
+  'app.audio.hint': 'Upload a file (MP3, WAV, etc.) or record audio directly. A 30-60 second clip is recommended; drag the waveform handles to analyze only part of a longer clip.',
+  'app.analyze': 'Analyze Voice Tone',
+  'app.analyzing': 'Analyzing...',
+  'app.cancel': 'Cancel',
+  'app.presets.quickPick': 'Or start from a preset:',
+  'app.error.title': 'Error!',
+  'app.error.noAudio': 'Please select or record an audio file first.',
+  'app.error.unexpected': 'An unexpected error occurred. Please try again.',
+  'app.error.measurements': 'This audio could not be decoded for local measurements.',
+  'app.error.tooLongToMeasure': 'This clip is too long to decode in the browser, so it is analyzed without local measurements or a waveform.',
+  'app.upload.progress': 'Uploading large clip... {loaded} of {total} MB',
+  'app.upload.progressLabel': 'Upload progress',
+  'app.retry.rateLimited': 'Rate limited',
+  'app.retry.network': 'Connection failed',
+  'app.retry.unavailable': 'Service unavailable',
+  'app.retry.status': '{reason}, retrying in {seconds}s (attempt {attempt} of {maxAttempts})...',
+
+  'uploader.tab.upload': 'Upload File',
+  'uploader.tab.record': 'Record Audio',
+  'uploader.status.batch': '{count} files added to the batch queue.',
+  'uploader.status.selected': 'File selected: {name}',
+  'uploader.status.removed': 'File removed.',
+  'uploader.chooseDifferent': 'Choose a different file',
+  'uploader.clickToUpload': 'Click to upload',
+  'uploader.orDragAndDrop': 'or drag and drop',
+  'uploader.formats': 'Supported formats: MP3, WAV, M4A, OGG, FLAC.',
+  'uploader.lengthHint': 'For best results, use a 30-60 second audio clip.',
+  'uploader.batchHint': 'Select or drop several files to analyze them as a batch.',
+  'uploader.startRecording': 'Start Recording',
+  'uploader.microphone': 'Microphone',
+  'uploader.systemDefault': 'System default',
+  'uploader.numberedMicrophone': 'Microphone {number}',
+  'uploader.maxLength': 'Max length (s)',
+  'uploader.recording': 'Recording...',
+  'uploader.stop': 'Stop',
+  'uploader.recordingComplete': 'Recording complete!',
+  'uploader.reRecord': 'Re-record',
+
+  'recorder.error.unsupported': 'Audio recording is not supported in this browser.',
+  'recorder.error.deviceUnavailable': 'The selected microphone is no longer available. The default input has been selected; please try again.',
+  'recorder.error.denied': "Microphone access was denied. Please allow microphone access in your browser's settings to use this feature.",
+
+  'monitor.inputLevel': 'Input level',
+  'monitor.autoStop': 'Auto-stop in {time}',
+  'monitor.clipping': 'Input is clipping. Move away from the microphone or lower its gain.',
+  'monitor.tooQuiet': 'Very little sound is coming in. Check that the right microphone is selected and unmuted.',
+
+  'trimmer.decodeError': 'The waveform could not be displayed for this file; the whole clip will be analyzed.',
+  'trimmer.loading': 'Loading waveform...',
+  'trimmer.selectionStart': 'Selection start',
+  'trimmer.selectionEnd': 'Selection end',
+  'trimmer.selection': 'Selection {start} – {end} ({length} s of {duration} s)',
+  'trimmer.preview': 'Preview selection',
+  'trimmer.stopPreview': 'Stop preview',
+  'trimmer.reset': 'Reset',
+  'trimmer.outsideRecommended': 'The selection is {length} s; {min}-{max} seconds is recommended for the most reliable analysis.',
+};
+
+export type MessageKey = keyof typeof en;
+
+/**
+ * A translation. Keys it leaves out fall back to English.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+// Catalogs by BCP 47 language tag. Add a translation here to offer it.
+const CATALOGS: Record<string, MessageCatalog> = { en };
+
+/**
+ * Picks the first supported locale from the user's preferences, trying the
+ * base language when a regional tag (e.g. "pt-BR") has no catalog of its own.
+ * @param {readonly string[]} preferred Language tags in order of preference, e.g. navigator.languages.
+ * @returns {string} A key of CATALOGS; English when nothing matches.
+ */
+export const resolveLocale = (preferred: readonly string[]): string => {
+  for (const tag of preferred) {
+    const base = tag.split('-')[0];
+    const match = Object.keys(CATALOGS).find((locale) => locale.toLowerCase() === tag.toLowerCase())
+      ?? Object.keys(CATALOGS).find((locale) => locale.toLowerCase() === base.toLowerCase());
+    if (match) return match;
+  }
+  return 'en';
+};
+
+export const UI_LOCALE = resolveLocale(typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language]);
+
+/**
+ * Looks up a UI string in the active catalog and fills in its `{placeholders}`.
+ * Placeholders without a value are left as written.
+ * @param {MessageKey} key The message id.
+ * @param {Record<string, string | number>} values Values for the placeholders.
+ */
+export const t = (key: MessageKey, values: Record<string, string | number> = {}): string =>
+  (CATALOGS[UI_LOCALE][key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : match
+  );
@@ -0,0 +1,50 @@
+export interface ServerConfig {
+  /** The Gemini key; it never leaves the server. */
+  apiKey: string;
+  host: string;
+  port: number;
+  /** Analysis and TTS requests each client may make per minute. */
+  rateLimitPerMinute: number;
+  /** Largest request body accepted, in bytes. Audio is sent base64-encoded inside it. */
+  maxBodyBytes: number;
+  /** Models clients may ask for; empty allows any. */
+  allowedModels: string[];
+  /** Origin allowed to call the API cross-origin; empty allows same-origin only. */
+  allowedOrigin: string;
+  /** Identify clients by X-Forwarded-For, for deployments behind a reverse proxy. */
+  trustForwardedFor: boolean;
+  /** Built client files to serve alongside the API, if the directory exists. */
+  staticDir: string;
+}
+
+const readNumber = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const raw = env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number, got "${raw}".`);
+  }
+  return value;
+};
+
+/**
+ * Reads the server settings from environment variables.
+ * @throws {Error} If the key is missing or a number is malformed.
+ */
+export const loadServerConfig = (env: NodeJS.ProcessEnv): ServerConfig => {
+  const apiKey = env.GEMINI_API_KEY?.trim() ?? '';
+  if (!apiKey) {
+    throw new Error('Set GEMINI_API_KEY (in the environment or .env.local) before starting the proxy.');
+  }
+  return {
+    apiKey,
+    host: env.PROXY_HOST || '127.0.0.1',
+    port: readNumber(env, 'PROXY_PORT', 8787),
+    rateLimitPerMinute: readNumber(env, 'PROXY_RATE_LIMIT', 20),
+    maxBodyBytes: Math.round(readNumber(env, 'PROXY_MAX_BODY_MB', 20) * 1024 * 1024),
+    allowedModels: (env.PROXY_ALLOWED_MODELS ?? '').split(',').map((model) => model.trim()).filter(Boolean),
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN?.trim() ?? '',
+    trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === 'true',
+    staticDir: env.PROXY_STATIC_DIR || 'dist',
+  };
+};
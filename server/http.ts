@@ -0,0 +1,78 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// Google API status names, so the browser classifies proxy errors like Gemini's own.
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  405: 'INVALID_ARGUMENT',
+  413: 'INVALID_ARGUMENT',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  502: 'UNAVAILABLE',
+};
+
+/**
+ * An error to answer with a specific status. The message is sent to the client.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Sends an error as a Google-style JSON body, with Retry-After when set.
+ */
+export const sendError = (res: ServerResponse, error: HttpError) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+  if (error.retryAfterMs !== undefined) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+  }
+  // The client may still be sending an oversized body; don't keep reading it.
+  if (error.status === 413) {
+    headers.Connection = 'close';
+  }
+  res.writeHead(error.status, headers);
+  res.end(JSON.stringify({ error: { code: error.status, message: error.message, status: STATUS_NAMES[error.status] ?? 'UNKNOWN' } }));
+};
+
+/**
+ * Reads and parses a JSON request body, refusing anything over `maxBytes`.
+ * @throws {HttpError} 413 when the body is too large, 400 when it is not JSON.
+ */
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const tooLarge = new HttpError(413, `The request is too large. The limit is ${Math.round(maxBytes / (1024 * 1024))} MB.`);
+  if (Number(req.headers['content-length']) > maxBytes) {
+    throw tooLarge;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  // Bodies without a Content-Length are counted as they arrive.
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw tooLarge;
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+};
+
+/**
+ * Identifies the client for rate limiting: the socket address, or the first
+ * X-Forwarded-For entry when running behind a trusted reverse proxy.
+ */
+export const clientIdFor = (req: IncomingMessage, trustForwardedFor: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return (trustForwardedFor && first) || req.socket.remoteAddress || 'unknown';
+};
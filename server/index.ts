@@ -0,0 +1,114 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { loadServerConfig } from './config';
+import type { ServerConfig } from './config';
+import { HttpError, clientIdFor, sendError } from './http';
+import { createRateLimiter } from './rateLimiter';
+import { handleAnalyze, handleTts } from './routes';
+
+type Route = (req: IncomingMessage, res: ServerResponse, config: ServerConfig) => Promise<void>;
+
+// Every route here spends quota on the server's key, so all of them are rate limited.
+const ROUTES: Record<string, Route> = {
+  '/api/analyze': handleAnalyze,
+  '/api/tts': handleTts,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+/**
+ * Serves the built client, falling back to index.html for unknown paths.
+ * @returns {Promise<boolean>} False when there is no build to serve.
+ */
+const serveStatic = async (pathname: string, res: ServerResponse, staticDir: string): Promise<boolean> => {
+  const root = path.resolve(staticDir);
+  let filePath = path.join(root, decodeURIComponent(pathname));
+  if (!filePath.startsWith(root + path.sep) || !(await stat(filePath).then((info) => info.isFile(), () => false))) {
+    filePath = path.join(root, 'index.html');
+  }
+  const body = await readFile(filePath).catch(() => null);
+  if (!body) return false;
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+  res.end(body);
+  return true;
+};
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // The file is optional; the environment may already hold the settings.
+}
+
+let config: ServerConfig;
+try {
+  config = loadServerConfig(process.env);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+const rateLimiter = createRateLimiter({ limit: config.rateLimitPerMinute, windowMs: 60_000 });
+
+const server = createServer(async (req, res) => {
+  try {
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+      res.setHeader('Vary', 'Origin');
+    }
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === '/api/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+      return;
+    }
+
+    const route = ROUTES[pathname];
+    if (route) {
+      if (req.method === 'OPTIONS' && config.allowedOrigin) {
+        res.writeHead(204, { 'Access-Control-Allow-Methods': 'POST' });
+        res.end();
+        return;
+      }
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Use POST.');
+      }
+      const retryAfterMs = rateLimiter.take(clientIdFor(req, config.trustForwardedFor));
+      if (retryAfterMs !== null) {
+        throw new HttpError(429, `Too many requests. This server allows ${config.rateLimitPerMinute} per minute.`, retryAfterMs);
+      }
+      await route(req, res, config);
+      return;
+    }
+
+    if (!pathname.startsWith('/api/') && (req.method === 'GET' || req.method === 'HEAD') && (await serveStatic(pathname, res, config.staticDir))) {
+      return;
+    }
+    throw new HttpError(404, 'Not found.');
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      console.error('Proxy request failed:', error);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    sendError(res, error instanceof HttpError ? error : new HttpError(500, 'The proxy ran into an unexpected error.'));
+  }
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(`Analysis proxy listening on http://${config.host}:${config.port} (${config.rateLimitPerMinute} requests per minute per client, ${Math.round(config.maxBodyBytes / (1024 * 1024))} MB max body).`);
+});
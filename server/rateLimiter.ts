@@ -0,0 +1,38 @@
+export interface RateLimiter {
+  /**
+   * Counts a request from a client.
+   * @returns {number | null} Null when the request is within the limit, otherwise how long to wait in milliseconds.
+   */
+  take: (clientId: string, now?: number) => number | null;
+}
+
+/**
+ * Creates a sliding-window limiter allowing each client `limit` requests per
+ * `windowMs`. Rejected requests are not counted, so a client that backs off
+ * for the returned delay always gets through.
+ */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter => {
+  const requests = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  return {
+    take: (clientId, now = Date.now()) => {
+      // Drop idle clients now and then, so the map does not grow without bound.
+      if (now - lastSweep > windowMs) {
+        for (const [id, times] of requests) {
+          if (times[times.length - 1] <= now - windowMs) requests.delete(id);
+        }
+        lastSweep = now;
+      }
+
+      const recent = (requests.get(clientId) ?? []).filter((time) => time > now - windowMs);
+      if (recent.length >= limit) {
+        requests.set(clientId, recent);
+        return recent[0] + windowMs - now;
+      }
+      recent.push(now);
+      requests.set(clientId, recent);
+      return null;
+    },
+  };
+};
@@ -0,0 +1,156 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { GenerationSettings, VoiceProfile } from '../types';
+import { AnalysisError } from '../services/analysisErrors';
+import type { AnalysisErrorKind } from '../services/analysisErrors';
+import type { AnalysisAudio, AnalysisOptions, RefinementRequest } from '../services/analysisProvider';
+import { createGeminiProvider } from '../services/geminiService';
+import { createGeminiTtsProvider } from '../services/geminiTtsService';
+import { DEFAULT_GENERATION_SETTINGS, getGenerationSettingsError } from '../services/generationSettings';
+import type { ProxyAnalyzeRequest, ProxyEvent, ProxyTask } from '../services/proxyProvider';
+import type { ProxyTtsRequest } from '../services/proxyTtsProvider';
+import type { ServerConfig } from './config';
+import { HttpError, readJsonBody, sendError } from './http';
+
+const TASKS: ProxyTask[] = ['voice', 'speakers', 'refine'];
+
+// TTS requests carry only text, so they get a much smaller body limit.
+const MAX_TTS_BODY_BYTES = 64 * 1024;
+
+// Statuses the browser classifies back into the same kind; anything else is an upstream failure.
+const STATUS_FOR_KIND: Partial<Record<AnalysisErrorKind, number>> = {
+  auth: 403,
+  'rate-limit': 429,
+  'payload-too-large': 413,
+  'model-not-found': 404,
+  'request-rejected': 400,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks the shape of an analysis request; the model output is validated by
+ * the provider as usual, so the profiles inside are only checked loosely.
+ * @throws {HttpError} 400 describing the first problem found.
+ */
+const parseAnalyzeRequest = (raw: unknown, config: ServerConfig): ProxyAnalyzeRequest => {
+  if (!isRecord(raw) || !TASKS.includes(raw.task as ProxyTask)) {
+    throw new HttpError(400, `"task" must be one of ${TASKS.join(', ')}.`);
+  }
+  const task = raw.task as ProxyTask;
+
+  let audio: ProxyAnalyzeRequest['audio'] = null;
+  if (isRecord(raw.audio)) {
+    const { base64, mimeType } = raw.audio;
+    if (typeof base64 !== 'string' || !base64 || typeof mimeType !== 'string' || !mimeType.startsWith('audio/')) {
+      throw new HttpError(400, '"audio" must have base64 data and an audio/* mimeType.');
+    }
+    audio = { base64, mimeType };
+  } else if (task !== 'refine') {
+    throw new HttpError(400, 'This task needs audio.');
+  }
+
+  const generation: GenerationSettings = { ...DEFAULT_GENERATION_SETTINGS, ...(isRecord(raw.generation) ? raw.generation : {}) };
+  const generationError = getGenerationSettingsError(generation, true);
+  if (generationError) {
+    throw new HttpError(400, generationError);
+  }
+  if (config.allowedModels.length > 0 && !config.allowedModels.includes(generation.model)) {
+    throw new HttpError(403, `This server does not allow the model "${generation.model}". Allowed: ${config.allowedModels.join(', ')}.`);
+  }
+
+  let refinement: RefinementRequest | undefined;
+  if (task === 'refine') {
+    const request = raw.refinement;
+    if (!isRecord(request) || !isRecord(request.original) || !Array.isArray(request.turns) || typeof request.instruction !== 'string') {
+      throw new HttpError(400, '"refinement" must include the original profile, the earlier turns and an instruction.');
+    }
+    refinement = request as unknown as RefinementRequest;
+  }
+
+  return {
+    task,
+    audio,
+    generation,
+    acousticFeatures: isRecord(raw.acousticFeatures) ? (raw.acousticFeatures as unknown as ProxyAnalyzeRequest['acousticFeatures']) : null,
+    instructions: typeof raw.instructions === 'string' ? raw.instructions : undefined,
+    refinement,
+  };
+};
+
+const toErrorEvent = (error: unknown): ProxyEvent => {
+  if (error instanceof AnalysisError) {
+    return { type: 'error', message: error.message, kind: error.kind, status: error.status, retryAfterMs: error.retryAfterMs };
+  }
+  return { type: 'error', message: error instanceof Error ? error.message : 'The analysis failed on the server.' };
+};
+
+/**
+ * Aborts the upstream request if the client goes away before the response is sent.
+ */
+const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+/**
+ * `POST /api/analyze`: runs an analysis with the server's key and streams
+ * newline-delimited ProxyEvents back, ending with the result or an error.
+ */
+export const handleAnalyze = async (req: IncomingMessage, res: ServerResponse, config: ServerConfig) => {
+  const request = parseAnalyzeRequest(await readJsonBody(req, config.maxBodyBytes), config);
+  const signal = abortOnDisconnect(res);
+  const provider = createGeminiProvider(config.apiKey, request.generation);
+  const audio: AnalysisAudio | null = request.audio && { kind: 'inline', ...request.audio };
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  const send = (event: ProxyEvent) => res.write(`${JSON.stringify(event)}\n`);
+  const options: AnalysisOptions = {
+    acousticFeatures: request.acousticFeatures,
+    instructions: request.instructions,
+    signal,
+    onPartialText: (text) => send({ type: 'partial', text }),
+  };
+
+  try {
+    const result = request.task === 'voice'
+      ? await provider.analyzeVoiceTone(audio!, options)
+      : request.task === 'speakers'
+        ? await provider.analyzeSpeakers(audio!, options)
+        : await provider.refineVoiceTone(audio, request.refinement!, options);
+    send({ type: 'result', result });
+  } catch (error) {
+    if (signal.aborted) return;
+    send(toErrorEvent(error));
+  } finally {
+    res.end();
+  }
+};
+
+/**
+ * `POST /api/tts`: renders a voice preview with the server's key and responds with the audio.
+ */
+export const handleTts = async (req: IncomingMessage, res: ServerResponse, config: ServerConfig) => {
+  const raw = await readJsonBody(req, MAX_TTS_BODY_BYTES);
+  if (!isRecord(raw) || typeof raw.description !== 'string' || typeof raw.script !== 'string' || !isRecord(raw.profile)) {
+    throw new HttpError(400, 'A TTS request needs a description, a script and the analyzed profile.');
+  }
+  const request: ProxyTtsRequest = { description: raw.description, script: raw.script, profile: raw.profile as unknown as VoiceProfile };
+  const signal = abortOnDisconnect(res);
+
+  let audio: Blob;
+  try {
+    audio = await createGeminiTtsProvider(config.apiKey).synthesize({ ...request, signal });
+  } catch (error) {
+    if (signal.aborted) return;
+    if (error instanceof AnalysisError) {
+      sendError(res, new HttpError(STATUS_FOR_KIND[error.kind] ?? 502, error.message, error.retryAfterMs));
+      return;
+    }
+    throw new HttpError(502, error instanceof Error ? error.message : 'The voice preview could not be generated.');
+  }
+  res.writeHead(200, { 'Content-Type': audio.type || 'audio/wav', 'Cache-Control': 'no-store' });
+  res.end(Buffer.from(await audio.arrayBuffer()));
+};
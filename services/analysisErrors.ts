@@ -0,0 +1,244 @@
+/**
+ * Whether an error was caused by an AbortSignal rather than a real failure.
+ * Fetch and AbortSignal.throwIfAborted() both reject with a DOMException named "AbortError".
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export type AnalysisErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'invalid-audio'
+  | 'model-not-found'
+  | 'request-rejected'
+  | 'payload-too-large'
+  | 'safety-blocked'
+  | 'network'
+  | 'server'
+  | 'invalid-response';
+
+/**
+ * What went wrong and what the user can do about it, per error class.
+ */
+const ERROR_MESSAGES: Record<AnalysisErrorKind, { title: string; action: string }> = {
+  auth: {
+    title: 'The API key was rejected.',
+    action: 'Check that the key is correct and has access to this model, then save it again.',
+  },
+  'rate-limit': {
+    title: 'The API quota or rate limit was reached.',
+    action: 'Wait a minute and try again, switch to a cheaper model, or check your usage and billing in Google AI Studio.',
+  },
+  'invalid-audio': {
+    title: 'The audio could not be processed.',
+    action: 'Try a different file, or re-record the clip as WAV or MP3.',
+  },
+  'model-not-found': {
+    title: 'The model was not found.',
+    action: 'Check the model name in the Model & Generation settings, or pick one from the list.',
+  },
+  'request-rejected': {
+    title: 'The request was rejected.',
+    action: 'Check the model and generation settings (e.g. temperature and thinking budget ranges), then try again.',
+  },
+  'payload-too-large': {
+    title: 'The audio file is too large to send.',
+    action: 'Trim the clip to the 30-60 seconds you need, or use a compressed format such as MP3.',
+  },
+  'safety-blocked': {
+    title: 'The request was blocked by the model\'s safety filters.',
+    action: 'Try a different clip, or trim out any part that might be flagged.',
+  },
+  network: {
+    title: 'The analysis service could not be reached.',
+    action: 'Check your internet connection (and, for self-hosted endpoints, that the server is running and allows this origin), then try again.',
+  },
+  server: {
+    title: 'The analysis service had a temporary problem.',
+    action: 'Try again in a few moments, or switch to another model.',
+  },
+  'invalid-response': {
+    title: 'The analysis came back in an unexpected format.',
+    action: 'Try again; if it keeps happening, raise the max output tokens or try another model.',
+  },
+};
+
+// Errors that may succeed if the same request is simply sent again.
+const RETRYABLE_KINDS: AnalysisErrorKind[] = ['rate-limit', 'network', 'server'];
+
+/**
+ * A classified analysis failure. The message is user-facing and ends with a
+ * concrete next step; `retryAfterMs` carries any delay the server asked for.
+ */
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AnalysisErrorKind, options: { status?: number; retryAfterMs?: number; detail?: string } = {}) {
+    const { title, action } = ERROR_MESSAGES[kind];
+    super([title, options.detail, action].filter(Boolean).join(' '));
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Parses a Retry-After header value (delay in seconds or an HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+interface GoogleErrorBody {
+  status?: string;
+  message?: string;
+  details?: { '@type'?: string; reason?: string; retryDelay?: string }[];
+}
+
+/**
+ * Extracts the `error` object from a Google-style JSON error body, which the
+ * SDK embeds in its error messages.
+ */
+const parseGoogleErrorBody = (text: string): GoogleErrorBody | undefined => {
+  const start = text.indexOf('{');
+  if (start < 0) return undefined;
+  try {
+    const parsed = JSON.parse(text.slice(start));
+    const error = parsed?.error ?? parsed;
+    // Some transports double-encode the body inside `message`.
+    if (typeof error?.message === 'string' && error.message.trim().startsWith('{')) {
+      return parseGoogleErrorBody(error.message) ?? error;
+    }
+    return typeof error === 'object' && error !== null ? error : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Classifies an HTTP error response from any analysis backend.
+ * @param {number} status The HTTP status code.
+ * @param {string} body The response body, used for Google error details.
+ * @param {string | null} retryAfterHeader The Retry-After header, if any.
+ * @returns {AnalysisError} The classified error.
+ */
+export const classifyHttpError = (status: number, body: string = '', retryAfterHeader?: string | null): AnalysisError => {
+  const details = parseGoogleErrorBody(body);
+  const reasons = details?.details?.map((detail) => detail.reason).filter(Boolean) ?? [];
+  const retryDelay = details?.details?.find((detail) => detail.retryDelay)?.retryDelay;
+  const retryAfterMs = parseRetryAfter(retryAfterHeader) ?? (retryDelay ? parseFloat(retryDelay) * 1000 : undefined);
+  const apiMessage = (details?.message ?? body).trim();
+  const message = apiMessage.toLowerCase();
+
+  if (status === 401 || status === 403 || reasons.includes('API_KEY_INVALID') || details?.status === 'UNAUTHENTICATED') {
+    return new AnalysisError('auth', { status });
+  }
+  if (status === 429 || details?.status === 'RESOURCE_EXHAUSTED') {
+    return new AnalysisError('rate-limit', { status, retryAfterMs });
+  }
+  if (status === 413 || message.includes('payload size') || message.includes('too large')) {
+    return new AnalysisError('payload-too-large', { status });
+  }
+  if (status === 408) {
+    return new AnalysisError('network', { status });
+  }
+  if (status >= 500) {
+    return new AnalysisError('server', { status, retryAfterMs });
+  }
+  if (status === 404 || details?.status === 'NOT_FOUND') {
+    return new AnalysisError('model-not-found', { status, detail: apiMessage || undefined });
+  }
+  // Only blame the clip when the API does; other 4xx are usually bad settings.
+  if (/audio|mime|media|file|unsupported format/.test(message)) {
+    return new AnalysisError('invalid-audio', { status });
+  }
+  return new AnalysisError('request-rejected', { status, detail: apiMessage || undefined });
+};
+
+/**
+ * Classifies anything thrown while calling an analysis backend. Abort errors
+ * and errors that are not transport failures (e.g. a missing key) are returned
+ * unchanged, so cancels stay non-failures and local mistakes are not retried.
+ * @param {unknown} error The caught value.
+ */
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof AnalysisError || isAbortError(error)) {
+    return error;
+  }
+  // The Gemini SDK throws ApiError, which carries the status and the JSON error body.
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return classifyHttpError(status, error instanceof Error ? error.message : '');
+  }
+  // fetch() rejects with a TypeError for network and CORS failures.
+  if (error instanceof TypeError) {
+    return new AnalysisError('network');
+  }
+  return error;
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Total attempts, including the first. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  /** Server-requested delays longer than this are not waited out. */
+  maxDelayMs?: number;
+  /** Called before each retry, e.g. to tell the user what is happening. */
+  onRetry?: (info: { attempt: number; maxAttempts: number; delayMs: number; error: AnalysisError }) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs a request, retrying retryable failures with exponential backoff and
+ * full jitter. A server-provided retry delay takes precedence over the backoff.
+ * @param {(attempt: number) => Promise<T>} request The request to run; receives the 1-based attempt number.
+ * @param {RetryOptions} options Retry limits and callbacks.
+ * @returns {Promise<T>} The first successful result.
+ */
+export async function withRetry<T>(
+  request: (attempt: number) => Promise<T>,
+  { signal, maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 60000, onRetry }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request(attempt);
+    } catch (caught) {
+      const error = classifyError(caught);
+      if (!(error instanceof AnalysisError) || !error.retryable || attempt >= maxAttempts || signal?.aborted) {
+        throw error;
+      }
+      // A quota that resets in hours is not worth waiting for.
+      if (error.retryAfterMs !== undefined && error.retryAfterMs > maxDelayMs) {
+        throw error;
+      }
+      const backoff = Math.random() * baseDelayMs * 2 ** (attempt - 1);
+      const delayMs = Math.round(error.retryAfterMs ?? Math.min(backoff, maxDelayMs));
+      onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import type { AcousticFeatures, VoiceDimensionKey, VoiceProfile } from "../types";
+import { VOICE_DIMENSIONS } from "../utils/voiceProfile";
+import { DEFAULT_PROMPT_TEMPLATE, renderTemplateInstructions } from "./promptTemplates";
+
+/**
+ * Scoring rules appended to every template, so edited wording can never
+ * break the structured result the app parses.
+ */
+export const SCORING_INSTRUCTIONS = `
+Score every one of the following characteristics: give a short label (e.g. "warm and friendly"), a score from 0 to 10 on the axis shown, your confidence in that judgement from 0 to 1, and a brief note explaining what you heard.
+${VOICE_DIMENSIONS.map(({ title, low, high }) => `- ${title}: 0 = ${low}, 10 = ${high}`).join('\n')}
+
+Identify the language spoken, by its English name and BCP 47 tag (e.g. "es-MX"), and the speaker's regional accent or dialect (e.g. "Mexican (Mexico City)", "Scottish (Glasgow)"), each with your confidence from 0 to 1. Leave the accent empty if none can be discerned. When the accent is distinctive, mention it in the TTS prompt.
+
+Also give your overall confidence in the analysis from 0 to 1.
+`;
+
+/**
+ * Diarization rules put in front of the template instructions in speaker mode;
+ * the instructions and scoring rules then apply to each speaker in turn.
+ */
+export const SPEAKER_INSTRUCTIONS = `This clip may contain more than one speaker, for example an interview or a dialogue. First identify each distinct speaker and list every time range, in seconds from the start of the clip, in which they speak. Name the speakers "Speaker 1", "Speaker 2" and so on in order of first appearance, unless their role is obvious (e.g. "Interviewer"). Then analyze each speaker separately, judging their voice only from their own segments and never blending two voices into one description.
+
+For each speaker:`;
+
+/**
+ * Renders the JSON shape of one profile, indented to nest inside a larger object.
+ */
+const profileJsonShape = (indent: string): string => `{
+${indent}  "language": { "name": string, "code": string, "confidence": number, "accent": string, "accentConfidence": number },
+${indent}  "dimensions": {
+${VOICE_DIMENSIONS.map(({ key }) => `${indent}    "${key}": { "label": string, "scale": number, "confidence": number, "notes": string }`).join(',\n')}
+${indent}  },
+${indent}  "confidence": number,
+${indent}  "ttsPrompt": string
+${indent}}`;
+
+/**
+ * Spelled-out JSON shape for backends that only support free-form JSON mode
+ * rather than a response schema.
+ */
+export const JSON_FORMAT_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, using exactly this shape:
+${profileJsonShape('')}
+`;
+
+/**
+ * The speaker mode counterpart of JSON_FORMAT_INSTRUCTIONS.
+ */
+export const SPEAKER_JSON_FORMAT_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "speakers": [
+    {
+      "label": string,
+      "segments": [{ "start": number, "end": number }],
+      "profile": ${profileJsonShape('      ')}
+    }
+  ]
+}
+`;
+
+const formatNumber = (value: number | null, unit: string, digits = 0): string =>
+  value === null ? 'not measurable' : `${value.toFixed(digits)} ${unit}`;
+
+/**
+ * Renders locally measured acoustic features as a bullet list for the prompt.
+ */
+export const formatAcousticFeatures = (features: AcousticFeatures): string => [
+  `- Duration: ${formatNumber(features.durationSeconds, 's', 1)}`,
+  `- Mean fundamental frequency (F0): ${formatNumber(features.f0MeanHz, 'Hz')}`,
+  `- F0 range (5th-95th percentile): ${features.f0MinHz === null || features.f0MaxHz === null ? 'not measurable' : `${features.f0MinHz.toFixed(0)}-${features.f0MaxHz.toFixed(0)} Hz`}`,
+  `- Speaking rate: ${formatNumber(features.speakingRate, 'syllables/s', 1)}`,
+  `- Pause ratio: ${(features.pauseRatio * 100).toFixed(0)}% of the clip`,
+  `- Speech loudness: ${formatNumber(features.rmsDb, 'dBFS', 1)}`,
+  `- Spectral centroid: ${formatNumber(features.spectralCentroidHz, 'Hz')}`,
+].join('\n');
+
+/**
+ * Returns the analysis prompt: rendered template instructions plus the fixed
+ * scoring rules, optionally grounded with measured acoustic features.
+ * @param {AcousticFeatures | null} acousticFeatures Locally measured features, if any.
+ * @param {string} instructions Rendered template instructions; defaults to the built-in template.
+ */
+export const buildAnalysisPrompt = (
+  acousticFeatures?: AcousticFeatures | null,
+  instructions: string = renderTemplateInstructions(DEFAULT_PROMPT_TEMPLATE)
+): string => {
+  const prompt = `${instructions}\n${SCORING_INSTRUCTIONS}`;
+  if (!acousticFeatures) {
+    return prompt;
+  }
+  return `${prompt}
+The following acoustic features were measured directly from the waveform. Use them to ground your pitch, pace and loudness judgements, and cite concrete values (e.g. "around 110 Hz") where they help:
+${formatAcousticFeatures(acousticFeatures)}
+`;
+};
+
+/**
+ * Returns the speaker mode prompt: diarization rules, then the template
+ * instructions and scoring rules to follow for each speaker. Acoustic features
+ * are left out because they are measured over all speakers at once.
+ * @param {string} instructions Rendered template instructions; defaults to the built-in template.
+ */
+export const buildSpeakerPrompt = (
+  instructions: string = renderTemplateInstructions(DEFAULT_PROMPT_TEMPLATE)
+): string => `${SPEAKER_INSTRUCTIONS}\n${instructions}\n${SCORING_INSTRUCTIONS}`;
+
+/**
+ * Returns the follow-up message asking the model to revise its last answer.
+ * The conversation so far (the clip, the analysis prompt and earlier answers)
+ * is sent along with it.
+ * @param {string} instruction The user's refinement request, e.g. "shorter, under 40 words".
+ * @param {boolean} hasAudio Whether the clip is part of the conversation.
+ */
+export const buildRefinementPrompt = (instruction: string, hasAudio: boolean): string => `Revise your previous analysis according to this instruction:
+${instruction.trim()}
+
+${hasAudio ? 'Listen to the clip again where it helps.' : 'The clip is no longer available, so work from your previous analysis.'} Change only what the instruction asks for and keep every score consistent with the voice. Respond with the complete revised analysis in the same format.`;
+
+/**
+ * Returns the refinement instruction that rewrites the TTS prompt after the
+ * dimensions were edited by hand. Only the prompt of the answer is used; the
+ * edited dimensions are kept as they are.
+ * @param {VoiceProfile} before The profile as it was analyzed.
+ * @param {VoiceProfile['dimensions']} after The edited dimensions.
+ * @param {VoiceDimensionKey[]} changed The dimensions that differ.
+ */
+export const buildAttributeEditInstruction = (before: VoiceProfile, after: VoiceProfile['dimensions'], changed: VoiceDimensionKey[]): string => {
+  const changes = VOICE_DIMENSIONS.filter(({ key }) => changed.includes(key)).map(({ key, title }) =>
+    `- ${title}: "${after[key].label}" (${after[key].scale}/10), was "${before.dimensions[key].label}" (${before.dimensions[key].scale}/10)`
+  );
+  return `A voice director adjusted these characteristics:
+${changes.join('\n')}
+
+Use these labels and scores exactly as given. Rewrite the TTS prompt as fluent prose that describes the adjusted voice, keeping what it says about everything else and its length and style.`;
+};
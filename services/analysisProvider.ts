@@ -0,0 +1,217 @@
+import type { AcousticFeatures, GenerationSettings, SpeakerProfile, VoiceProfile } from "../types";
+import { fileToBase64 } from "../utils/fileUtils";
+import { withRetry } from "./analysisErrors";
+import type { RetryOptions } from "./analysisErrors";
+import { INLINE_AUDIO_LIMIT_BYTES, checkAudioLimits, compactAudio, withAudioMimeType } from "./audioPreparation";
+import type { UploadProgress } from "./geminiFileUpload";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { ANALYSIS_PROXY_URL, createProxyProvider } from "./proxyProvider";
+
+export type AnalysisProviderId = 'gemini' | 'mock' | 'openai-compatible';
+
+export interface AnalysisOptions {
+  /** Locally measured features to ground the model's description. */
+  acousticFeatures?: AcousticFeatures | null;
+  /** Rendered prompt template instructions; the built-in template is used when omitted. */
+  instructions?: string;
+  /** Aborts the request; the returned promise then rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Receives the accumulated raw response text as it streams in. */
+  onPartialText?: (text: string) => void;
+  /** Called before a failed request is retried. */
+  onRetry?: RetryOptions['onRetry'];
+  /** Receives progress while a large clip is uploaded ahead of the analysis. */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Audio as sent to a provider: either inline base64 data, or a reference to a
+ * clip uploaded beforehand with `uploadAudio`.
+ */
+export type AnalysisAudio =
+  | { kind: 'inline'; base64: string; mimeType: string }
+  | { kind: 'uploaded'; uri: string; mimeType: string };
+
+/**
+ * A follow-up request to revise an analysis. `turns` holds the earlier
+ * instructions and the revision each produced, leading up to the version
+ * being refined; the model sees the whole exchange.
+ */
+export interface RefinementRequest {
+  original: VoiceProfile;
+  turns: { instruction: string; profile: VoiceProfile }[];
+  instruction: string;
+}
+
+/**
+ * A backend capable of turning an audio clip into a VoiceProfile.
+ * The UI only talks to this interface, never to a specific SDK.
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  model: string;
+  /** Generation parameters sent with every request, recorded alongside results. */
+  generation?: GenerationSettings;
+  analyzeVoiceTone: (audio: AnalysisAudio, options?: AnalysisOptions) => Promise<VoiceProfile>;
+  /** Diarizes a multi-speaker clip and profiles each speaker separately. */
+  analyzeSpeakers: (audio: AnalysisAudio, options?: AnalysisOptions) => Promise<SpeakerProfile[]>;
+  /** Revises an earlier analysis in conversation; the audio is omitted when it is no longer available. */
+  refineVoiceTone: (audio: AnalysisAudio | null, request: RefinementRequest, options?: AnalysisOptions) => Promise<VoiceProfile>;
+  /**
+   * Uploads a clip too large to send inline. Providers without it always
+   * receive inline audio, whatever the size.
+   */
+  uploadAudio?: (file: File, options: Pick<AnalysisOptions, 'signal' | 'onUploadProgress'>) => Promise<AnalysisAudio>;
+}
+
+export interface ProviderSettings {
+  provider: AnalysisProviderId;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+}
+
+export const PROVIDER_LABELS: Record<AnalysisProviderId, string> = {
+  gemini: 'Google Gemini',
+  mock: 'Offline mock',
+  'openai-compatible': 'OpenAI-compatible endpoint',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  openAiBaseUrl: 'http://localhost:8000/v1',
+  openAiModel: '',
+  openAiApiKey: '',
+};
+
+/**
+ * Returns a user-facing reason why the provider cannot run with the given
+ * settings, or an empty string if it is ready.
+ */
+export const getProviderConfigError = (settings: ProviderSettings, geminiApiKey: string): string => {
+  switch (settings.provider) {
+    case 'gemini':
+      return geminiApiKey || ANALYSIS_PROXY_URL ? '' : 'Please add or unlock a Gemini API key before analyzing.';
+    case 'openai-compatible':
+      if (!settings.openAiBaseUrl.trim()) return 'Please enter the base URL of your OpenAI-compatible endpoint.';
+      if (!settings.openAiModel.trim()) return 'Please enter the model name to use on your OpenAI-compatible endpoint.';
+      return '';
+    case 'mock':
+      return '';
+  }
+};
+
+/**
+ * Builds the analysis provider selected in the settings.
+ * @param {ProviderSettings} settings The saved provider settings.
+ * @param {string} geminiApiKey The Gemini key, used only by the Gemini provider, and not at all behind the proxy.
+ * @param {GenerationSettings} generation Model and generation parameters; the mock ignores them.
+ */
+export const createAnalysisProvider = (settings: ProviderSettings, geminiApiKey: string, generation: GenerationSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return ANALYSIS_PROXY_URL ? createProxyProvider(ANALYSIS_PROXY_URL, generation) : createGeminiProvider(geminiApiKey, generation);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: settings.openAiBaseUrl,
+        model: settings.openAiModel,
+        apiKey: settings.openAiApiKey,
+        generation,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+};
+
+/**
+ * Checks and compacts an audio file, then reads it inline or, for clips over
+ * the inline limit, uploads it when the provider supports that.
+ */
+const prepareAudio = async (provider: AnalysisProvider, file: File, options: AnalysisOptions): Promise<{ audio: AnalysisAudio; duration: number | null }> => {
+  const { signal } = options;
+  const duration = await checkAudioLimits(file);
+  const compact = await compactAudio(withAudioMimeType(file), duration);
+  signal?.throwIfAborted();
+
+  let audio: AnalysisAudio;
+  const { uploadAudio } = provider;
+  if (uploadAudio && compact.size > INLINE_AUDIO_LIMIT_BYTES) {
+    audio = await withRetry(() => uploadAudio(compact, options), { signal, onRetry: options.onRetry });
+  } else {
+    const { base64, mimeType } = await fileToBase64(compact);
+    audio = { kind: 'inline', base64, mimeType };
+  }
+  signal?.throwIfAborted();
+  return { audio, duration };
+};
+
+/**
+ * Checks, compacts and sends an audio file to the given provider, retrying
+ * transient failures. Clips over the inline limit are uploaded first when the
+ * provider supports it. Errors surface as AnalysisError where they can be classified.
+ * @param {AnalysisProvider} provider The provider to analyze with.
+ * @param {File} file The audio file to analyze.
+ * @param {AnalysisOptions} options Extra context for the analysis.
+ */
+export async function analyzeAudioFile(provider: AnalysisProvider, file: File, options: AnalysisOptions = {}): Promise<VoiceProfile> {
+  const { signal } = options;
+  const { audio } = await prepareAudio(provider, file, options);
+  return withRetry(
+    (attempt) => {
+      // A retry streams from scratch, so clear any partial output from the failed attempt.
+      if (attempt > 1) options.onPartialText?.('');
+      return provider.analyzeVoiceTone(audio, options);
+    },
+    { signal, onRetry: options.onRetry }
+  );
+}
+
+/**
+ * Like analyzeAudioFile, but diarizes the clip and returns a profile per speaker.
+ * Segments are clipped to the clip's duration when it is known.
+ * @param {AnalysisProvider} provider The provider to analyze with.
+ * @param {File} file The audio file to analyze.
+ * @param {AnalysisOptions} options Extra context for the analysis.
+ */
+export async function analyzeSpeakersInFile(provider: AnalysisProvider, file: File, options: AnalysisOptions = {}): Promise<SpeakerProfile[]> {
+  const { signal } = options;
+  const { audio, duration } = await prepareAudio(provider, file, options);
+  const speakers = await withRetry(
+    (attempt) => {
+      if (attempt > 1) options.onPartialText?.('');
+      return provider.analyzeSpeakers(audio, options);
+    },
+    { signal, onRetry: options.onRetry }
+  );
+  if (duration === null) {
+    return speakers;
+  }
+  return speakers.map((speaker) => ({
+    ...speaker,
+    segments: speaker.segments
+      .filter((segment) => segment.start < duration)
+      .map((segment) => ({ start: segment.start, end: Math.min(segment.end, duration) })),
+  }));
+}
+
+/**
+ * Sends a refinement request for an earlier analysis, with the clip when there
+ * is one, retrying transient failures.
+ * @param {AnalysisProvider} provider The provider to refine with.
+ * @param {File | null} file The analyzed clip, or null if it is not available.
+ * @param {RefinementRequest} request The conversation so far and the new instruction.
+ * @param {AnalysisOptions} options The instructions and features of the original analysis, and callbacks.
+ */
+export async function refineAudioAnalysis(provider: AnalysisProvider, file: File | null, request: RefinementRequest, options: AnalysisOptions = {}): Promise<VoiceProfile> {
+  const { signal } = options;
+  const audio = file ? (await prepareAudio(provider, file, options)).audio : null;
+  return withRetry(
+    (attempt) => {
+      if (attempt > 1) options.onPartialText?.('');
+      return provider.refineVoiceTone(audio, request, options);
+    },
+    { signal, onRetry: options.onRetry }
+  );
+}
@@ -0,0 +1,109 @@
+const PROFILES_KEY = 'API_KEY_PROFILES';
+// Where keys were kept, unencrypted, before profiles existed.
+const LEGACY_KEY = 'GEMINI_API_KEY';
+
+const PBKDF2_ITERATIONS = 310_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * A saved API key. Only the name is readable; the key itself is AES-GCM
+ * encrypted with a key derived from the profile's passphrase.
+ */
+export interface ApiKeyProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Base64 PBKDF2 salt. */
+  salt: string;
+  /** Base64 AES-GCM nonce. */
+  iv: string;
+  /** Base64 encrypted key, including the GCM tag. */
+  ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const writeProfiles = (profiles: ApiKeyProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Returns the saved key profiles in the order they were created.
+ */
+export const listKeyProfiles = (): ApiKeyProfile[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Encrypts a key with a passphrase and saves it as a new profile. Any key left
+ * unencrypted by older versions is removed, since it is now superseded.
+ * @param {string} name A label such as "Personal" or "Team".
+ * @param {string} apiKey The key to protect.
+ * @param {string} passphrase Needed again to unlock the key; it is never stored.
+ */
+export const saveKeyProfile = async (name: string, apiKey: string, passphrase: string): Promise<ApiKeyProfile> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+  const profile: ApiKeyProfile = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  writeProfiles([...listKeyProfiles(), profile]);
+  clearLegacyKey();
+  return profile;
+};
+
+/**
+ * Decrypts a profile's key.
+ * @throws {Error} If the passphrase is wrong or the profile is corrupt.
+ */
+export const unlockKeyProfile = async (profile: ApiKeyProfile, passphrase: string): Promise<string> => {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(profile.salt));
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(profile.iv) }, key, fromBase64(profile.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // GCM authentication fails the same way for a wrong passphrase and for tampered data.
+    throw new Error(`Could not unlock "${profile.name}". Check the passphrase and try again.`);
+  }
+};
+
+export const deleteKeyProfile = (id: string) => {
+  writeProfiles(listKeyProfiles().filter((profile) => profile.id !== id));
+};
+
+/**
+ * Returns a key saved in plain text by an older version of the app, if any.
+ */
+export const readLegacyKey = (): string | null => localStorage.getItem(LEGACY_KEY);
+
+export const clearLegacyKey = () => {
+  localStorage.removeItem(LEGACY_KEY);
+};
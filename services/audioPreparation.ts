@@ -0,0 +1,111 @@
+import { getAudioDuration } from "../utils/fileUtils";
+import { downmixAudioFile } from "../utils/wavEncoder";
+import { AnalysisError } from "./analysisErrors";
+
+/**
+ * Largest clip sent inline. Gemini caps the whole request at 20 MB and base64
+ * adds a third, so anything bigger goes through the Files API instead.
+ */
+export const INLINE_AUDIO_LIMIT_BYTES = 14 * 1024 * 1024;
+
+// Files API limit per file.
+export const MAX_AUDIO_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Gemini accepts up to 9.5 hours of audio in a single prompt.
+export const MAX_AUDIO_SECONDS = 9.5 * 60 * 60;
+
+// Gemini downsamples audio to 16 kHz mono anyway, so sending more only costs bandwidth.
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+/**
+ * Longest clip decoded whole. Decoding holds the whole clip in memory as float
+ * samples, so longer clips are sent as they are, without local measurements or a waveform.
+ */
+const MAX_DECODE_SECONDS = 20 * 60;
+
+// Size cap when the duration is unknown (e.g. MediaRecorder WebM): about 20 minutes at 64 kbps.
+const MAX_DECODE_BYTES_WITHOUT_DURATION = 10 * 1024 * 1024;
+
+/**
+ * Whether a clip can be decoded in memory for downmixing, measurements and the waveform.
+ * @param {Blob} file The clip.
+ * @param {number | null} duration The clip's duration in seconds, or null if the browser cannot tell.
+ */
+export const canDecodeWhole = (file: Blob, duration: number | null): boolean =>
+  duration === null ? file.size <= MAX_DECODE_BYTES_WITHOUT_DURATION : duration <= MAX_DECODE_SECONDS;
+
+// Audio MIME types by extension, for clips whose own type is missing or not audio/*.
+export const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.webm': 'audio/webm',
+  '.aif': 'audio/aiff',
+  '.aiff': 'audio/aiff',
+};
+
+/**
+ * The audio MIME type a clip is sent as: its own when it is audio/*, otherwise
+ * the one its extension implies. Providers and the proxy only accept audio/*.
+ * @param {{ name: string; type: string }} file The clip, or anything named and typed like one.
+ * @returns {string | null} The MIME type, or null when neither the type nor the extension is audio.
+ */
+export const audioMimeTypeFor = ({ name, type }: { name: string; type: string }): string | null =>
+  type.startsWith('audio/') ? type : AUDIO_MIME_TYPES[name.match(/\.[^.]+$/)?.[0].toLowerCase() ?? ''] ?? null;
+
+/**
+ * Relabels a clip with its audio MIME type (see audioMimeTypeFor), so it is not sent as e.g. video/webm.
+ */
+export const withAudioMimeType = (file: File): File => {
+  const mimeType = audioMimeTypeFor(file);
+  return !mimeType || mimeType === file.type ? file : new File([file], file.name, { type: mimeType, lastModified: file.lastModified });
+};
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Rejects clips that no backend will accept, before any of it is read or sent.
+ * @param {File} file The clip about to be analyzed.
+ * @returns {Promise<number | null>} The clip's duration in seconds, if the browser can tell.
+ */
+export const checkAudioLimits = async (file: File): Promise<number | null> => {
+  // Browsers leave the type empty or generic for some valid clips (e.g. .opus), so the extension can vouch for it instead.
+  if (!audioMimeTypeFor(file)) {
+    throw new AnalysisError('invalid-audio', {
+      detail: `"${file.name}" is not an audio file (${file.type || 'unknown type'}). Supported: ${Object.keys(AUDIO_MIME_TYPES).join(', ')}.`,
+    });
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    throw new AnalysisError('payload-too-large', { detail: `The file is ${formatMegabytes(file.size)}; the limit is 2 GB.` });
+  }
+  const duration = await getAudioDuration(file).catch(() => null);
+  if (duration !== null && duration > MAX_AUDIO_SECONDS) {
+    throw new AnalysisError('payload-too-large', { detail: `The clip is ${(duration / 3600).toFixed(1)} hours long; the limit is 9.5 hours.` });
+  }
+  return duration;
+};
+
+/**
+ * Downmixes and resamples a clip to 16 kHz mono WAV when that makes it smaller.
+ * Compressed formats at low bitrates are often smaller already, and clips the
+ * browser cannot decode are returned unchanged.
+ * @param {File} file The clip to compact.
+ * @param {number | null} duration The clip's duration in seconds, if known.
+ */
+export const compactAudio = async (file: File, duration: number | null): Promise<File> => {
+  if (!canDecodeWhole(file, duration)) {
+    return file;
+  }
+  try {
+    const downmixed = await downmixAudioFile(file, ANALYSIS_SAMPLE_RATE);
+    return downmixed.size < file.size ? downmixed : file;
+  } catch (error) {
+    console.warn("Could not downmix the clip; sending it unchanged.", error);
+    return file;
+  }
+};
@@ -0,0 +1,97 @@
+import { FileState, GoogleGenAI } from "@google/genai";
+import { AnalysisError, classifyHttpError } from "./analysisErrors";
+
+const UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+// Resumable upload chunks must be a multiple of 256 KiB; smaller chunks give smoother progress.
+const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+
+const PROCESSING_POLL_MS = 1000;
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadedAudio {
+  uri: string;
+  mimeType: string;
+}
+
+const throwIfFailed = async (response: Response): Promise<void> => {
+  if (!response.ok) {
+    const body = await response.text();
+    console.error(`Gemini file upload failed with status ${response.status}:`, body);
+    throw classifyHttpError(response.status, body, response.headers.get('retry-after'));
+  }
+};
+
+/**
+ * Uploads a clip through the Gemini Files API using the resumable protocol,
+ * reporting progress after every chunk, and waits until it can be referenced.
+ * Uploaded files expire after 48 hours.
+ * @param {string} apiKey The Gemini API key.
+ * @param {File} file The clip to upload.
+ * @param {object} options Cancellation and progress callbacks.
+ * @returns {Promise<UploadedAudio>} The file URI to reference in a prompt.
+ */
+export async function uploadToGeminiFiles(
+  apiKey: string,
+  file: File,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: UploadProgress) => void } = {}
+): Promise<UploadedAudio> {
+  const start = await fetch(UPLOAD_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': apiKey,
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': file.type,
+    },
+    body: JSON.stringify({ file: { displayName: file.name } }),
+    signal,
+  });
+  await throwIfFailed(start);
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!uploadUrl) {
+    throw new AnalysisError('invalid-response', { detail: 'The Files API did not return an upload URL.' });
+  }
+
+  let response = start;
+  onProgress?.({ loaded: 0, total: file.size });
+  for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_BYTES) {
+    const chunk = file.slice(offset, offset + UPLOAD_CHUNK_BYTES);
+    const isLast = offset + chunk.size >= file.size;
+    response = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: {
+        'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+        'X-Goog-Upload-Offset': String(offset),
+      },
+      body: chunk,
+      signal,
+    });
+    await throwIfFailed(response);
+    onProgress?.({ loaded: offset + chunk.size, total: file.size });
+  }
+
+  const { file: uploaded } = await response.json();
+  if (!uploaded?.name || !uploaded?.uri) {
+    throw new AnalysisError('invalid-response', { detail: 'The Files API did not describe the uploaded file.' });
+  }
+
+  // Audio is usually usable at once, but large files can spend a moment in processing.
+  const ai = new GoogleGenAI({ apiKey });
+  let state: FileState | undefined = uploaded.state;
+  while (state === FileState.PROCESSING) {
+    await new Promise((resolve) => setTimeout(resolve, PROCESSING_POLL_MS));
+    signal?.throwIfAborted();
+    state = (await ai.files.get({ name: uploaded.name, config: { abortSignal: signal } })).state;
+  }
+  if (state === FileState.FAILED) {
+    throw new AnalysisError('invalid-audio', { detail: 'The Files API could not process the upload.' });
+  }
+  return { uri: uploaded.uri, mimeType: uploaded.mimeType ?? file.type };
+}
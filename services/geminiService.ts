@@ -1,69 +1,237 @@
-import { GoogleGenAI } from "@google/genai";
+import { FinishReason, GoogleGenAI, Type, createPartFromBase64, createPartFromUri } from "@google/genai";
+import type { Content, Part } from "@google/genai";
+import type { GenerationSettings, SpeakerProfile, VoiceProfile } from "../types";
+import { VOICE_DIMENSIONS, parseSpeakerProfiles, parseVoiceProfile } from "../utils/voiceProfile";
+import { buildAnalysisPrompt, buildRefinementPrompt, buildSpeakerPrompt } from "./analysisPrompt";
+import { AnalysisError, classifyError, isAbortError } from "./analysisErrors";
+import { uploadToGeminiFiles } from "./geminiFileUpload";
+import { DEFAULT_GENERATION_SETTINGS } from "./generationSettings";
+import type { AnalysisAudio, AnalysisOptions, AnalysisProvider, RefinementRequest } from "./analysisProvider";
 
-const PROMPT = `
-You are an expert voice analyst. Your task is to analyze the provided audio clip and generate a detailed, descriptive prompt that can be used in a Text-to-Speech (TTS) generator to replicate a similar voice style.
+const DIMENSION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    label: { type: Type.STRING },
+    scale: { type: Type.NUMBER },
+    confidence: { type: Type.NUMBER },
+    notes: { type: Type.STRING },
+  },
+  required: ['label', 'scale', 'confidence', 'notes'],
+  propertyOrdering: ['label', 'scale', 'confidence', 'notes'],
+};
 
-Analyze the following characteristics of the voice:
-- **Tone**: Is it warm, friendly, authoritative, calm, energetic, melancholic?
-- **Pitch**: Is it high, low, medium? Does it have a wide or narrow range?
-- **Pace**: Is the speech fast, slow, moderate? Are there pauses?
-- **Articulation**: Is it crisp and clear, or soft and mumbled?
-- **Timbre**: Describe the quality of the voice (e.g., raspy, smooth, breathy, rich, nasal).
-- **Emotion**: What emotions are conveyed? (e.g., happiness, sincerity, confidence).
+const LANGUAGE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    code: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+    accent: { type: Type.STRING },
+    accentConfidence: { type: Type.NUMBER },
+  },
+  required: ['name', 'code', 'confidence', 'accent', 'accentConfidence'],
+  propertyOrdering: ['name', 'code', 'confidence', 'accent', 'accentConfidence'],
+};
 
-Based on your analysis, synthesize these elements into a concise and effective TTS prompt. The prompt should be a single paragraph of descriptive text. Start the description directly, without any preamble like "This voice has..." or "Here is the description:".
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    language: LANGUAGE_SCHEMA,
+    dimensions: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(VOICE_DIMENSIONS.map(({ key }) => [key, DIMENSION_SCHEMA])),
+      required: VOICE_DIMENSIONS.map(({ key }) => key),
+      propertyOrdering: VOICE_DIMENSIONS.map(({ key }) => key),
+    },
+    confidence: { type: Type.NUMBER },
+    ttsPrompt: { type: Type.STRING },
+  },
+  required: ['language', 'dimensions', 'confidence', 'ttsPrompt'],
+  propertyOrdering: ['language', 'dimensions', 'confidence', 'ttsPrompt'],
+};
 
-Example Output:
-"A medium-pitched male voice with a warm, friendly, and reassuring tone. The pace is moderate and conversational, with clear articulation. The timbre is smooth and rich, conveying a sense of calm confidence and sincerity."
-`;
+const SPEAKERS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          segments: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { start: { type: Type.NUMBER }, end: { type: Type.NUMBER } },
+              required: ['start', 'end'],
+              propertyOrdering: ['start', 'end'],
+            },
+          },
+          profile: RESPONSE_SCHEMA,
+        },
+        required: ['label', 'segments', 'profile'],
+        propertyOrdering: ['label', 'segments', 'profile'],
+      },
+    },
+  },
+  required: ['speakers'],
+};
+
+// Finish reasons meaning the output was withheld by content filters.
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
 
-export async function analyzeVoiceTone(base64Audio: string, mimeType: string, apiKey: string): Promise<string> {
+const toAudioPart = (audio: AnalysisAudio): Part =>
+  audio.kind === 'inline' ? createPartFromBase64(audio.base64, audio.mimeType) : createPartFromUri(audio.uri, audio.mimeType);
+
+/**
+ * Streams a JSON response to the given conversation, returning the raw text.
+ */
+async function generateJson(
+  contents: Content[],
+  responseSchema: object,
+  apiKey: string,
+  generation: GenerationSettings,
+  options: AnalysisOptions
+): Promise<string> {
   if (!apiKey) {
     throw new Error("A valid Gemini API key is required to perform the analysis.");
   }
 
   const ai = new GoogleGenAI({ apiKey });
+  let responseText: string;
 
   try {
-    const audioPart = {
-      inlineData: {
-        data: base64Audio,
-        mimeType: mimeType,
+    const { model, temperature, maxOutputTokens, thinkingBudget, seed } = generation;
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema,
+        // Unset parameters are omitted so the model's own defaults apply.
+        ...(temperature !== null && { temperature }),
+        ...(maxOutputTokens !== null && { maxOutputTokens }),
+        ...(thinkingBudget !== null && { thinkingConfig: { thinkingBudget } }),
+        ...(seed !== null && { seed }),
+        abortSignal: options.signal,
       },
-    };
-
-    const textPart = {
-      text: PROMPT,
-    };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents: { parts: [audioPart, textPart] },
     });
 
-    return response.text.trim();
+    responseText = '';
+    for await (const chunk of stream) {
+      options.signal?.throwIfAborted();
+      if (chunk.promptFeedback?.blockReason) {
+        throw new AnalysisError('safety-blocked');
+      }
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new AnalysisError('safety-blocked');
+      }
+      if (finishReason === FinishReason.MAX_TOKENS) {
+        throw new AnalysisError('invalid-response', { detail: 'The response was cut off at the max output tokens limit.' });
+      }
+      responseText += chunk.text ?? '';
+      options.onPartialText?.(responseText);
+    }
   } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) {
+      throw options.signal?.reason ?? error;
+    }
+
     // Log the detailed, technical error to the console for debugging purposes.
     console.error("Gemini API Request Failed: Full error object:", error);
+    throw classifyError(error);
+  }
+  return responseText;
+}
 
-    let userFriendlyMessage = "An unknown error occurred while communicating with the Gemini API.";
-
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase();
-      // Provide more specific, user-friendly messages for common issues.
-      if (message.includes('api key not valid') || message.includes('permission denied')) {
-        userFriendlyMessage = 'The provided API key is not valid or lacks the necessary permissions. Please check your key and try again.';
-      } else if (message.includes('quota')) {
-        userFriendlyMessage = 'You have exceeded your API quota. Please check your usage and billing information with Google AI Studio.';
-      } else if (message.includes('400 bad request')) {
-        userFriendlyMessage = 'The request was invalid. This may be due to a problem with the uploaded audio file or its format.';
-      } else {
-        // For other errors, provide a message that's still helpful without being overly technical.
-        userFriendlyMessage = `An error occurred during analysis. Please try again later.`;
-      }
+async function analyzeVoiceTone(audio: AnalysisAudio, apiKey: string, generation: GenerationSettings, options: AnalysisOptions = {}): Promise<VoiceProfile> {
+  const prompt = buildAnalysisPrompt(options.acousticFeatures, options.instructions);
+  const contents = [{ role: 'user', parts: [toAudioPart(audio), { text: prompt }] }];
+  const responseText = await generateJson(contents, RESPONSE_SCHEMA, apiKey, generation, options);
+  try {
+    return parseVoiceProfile(JSON.parse(responseText));
+  } catch (error) {
+    console.error("Gemini API returned an unexpected analysis format:", responseText, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+async function analyzeSpeakers(audio: AnalysisAudio, apiKey: string, generation: GenerationSettings, options: AnalysisOptions = {}): Promise<SpeakerProfile[]> {
+  const contents = [{ role: 'user', parts: [toAudioPart(audio), { text: buildSpeakerPrompt(options.instructions) }] }];
+  const responseText = await generateJson(contents, SPEAKERS_SCHEMA, apiKey, generation, options);
+  try {
+    return parseSpeakerProfiles(JSON.parse(responseText));
+  } catch (error) {
+    console.error("Gemini API returned an unexpected speaker analysis format:", responseText, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+async function refineVoiceTone(audio: AnalysisAudio | null, request: RefinementRequest, apiKey: string, generation: GenerationSettings, options: AnalysisOptions = {}): Promise<VoiceProfile> {
+  const prompt = buildAnalysisPrompt(options.acousticFeatures, options.instructions);
+  const followUp = (instruction: string): Content => ({ role: 'user', parts: [{ text: buildRefinementPrompt(instruction, audio !== null) }] });
+  const answer = (profile: VoiceProfile): Content => ({ role: 'model', parts: [{ text: JSON.stringify(profile) }] });
+  const contents: Content[] = [
+    { role: 'user', parts: audio ? [toAudioPart(audio), { text: prompt }] : [{ text: prompt }] },
+    answer(request.original),
+    ...request.turns.flatMap(({ instruction, profile }) => [followUp(instruction), answer(profile)]),
+    followUp(request.instruction),
+  ];
+  const responseText = await generateJson(contents, RESPONSE_SCHEMA, apiKey, generation, options);
+  try {
+    return parseVoiceProfile(JSON.parse(responseText));
+  } catch (error) {
+    console.error("Gemini API returned an unexpected refinement format:", responseText, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+/**
+ * Lists the models a key can generate content with. A successful call is
+ * the only reliable check that a key is valid and enabled for the API.
+ * @param {string} apiKey The key to check.
+ * @param {AbortSignal} [signal] Cancels the request.
+ * @returns {Promise<string[]>} Model ids such as "gemini-2.5-flash".
+ * @throws {AnalysisError} Classified the same way as analysis failures, e.g. `auth` for a rejected key.
+ */
+export async function listGeminiModels(apiKey: string, signal?: AbortSignal): Promise<string[]> {
+  const ai = new GoogleGenAI({ apiKey });
+  try {
+    const pager = await ai.models.list({ config: { pageSize: 100, abortSignal: signal } });
+    return pager.page
+      .filter((model) => model.supportedActions?.includes('generateContent'))
+      .map((model) => (model.name ?? '').replace(/^models\//, ''))
+      .filter(Boolean);
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      throw signal?.reason ?? error;
     }
-    
-    // Throw a new error with the user-friendly message to be displayed in the UI.
-    throw new Error(userFriendlyMessage);
+    throw classifyError(error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates an analysis provider backed by the Gemini API.
+ * @param {string} apiKey The Gemini API key used for every request.
+ * @param {GenerationSettings} generation The model and generation parameters to run the analysis with.
+ */
+export const createGeminiProvider = (apiKey: string, generation: GenerationSettings = DEFAULT_GENERATION_SETTINGS): AnalysisProvider => ({
+  id: 'gemini',
+  model: generation.model,
+  generation,
+  analyzeVoiceTone: (audio, options) => analyzeVoiceTone(audio, apiKey, generation, options),
+  analyzeSpeakers: (audio, options) => analyzeSpeakers(audio, apiKey, generation, options),
+  refineVoiceTone: (audio, request, options) => refineVoiceTone(audio, request, apiKey, generation, options),
+  uploadAudio: async (file, { signal, onUploadProgress }) => {
+    const { uri, mimeType } = await uploadToGeminiFiles(apiKey, file, { signal, onProgress: onUploadProgress });
+    return { kind: 'uploaded', uri, mimeType };
+  },
+});
@@ -0,0 +1,79 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { VoiceProfile } from "../types";
+import { pcm16ToWav } from "../utils/wavEncoder";
+import { AnalysisError, classifyError, isAbortError } from "./analysisErrors";
+import type { SynthesisRequest, TtsProvider } from "./ttsProvider";
+
+export const DEFAULT_GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Gemini TTS returns raw 16-bit mono PCM; the rate is normally in the MIME type.
+const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+/**
+ * Picks a prebuilt voice whose register is closest to the analyzed pitch;
+ * the style prompt then shapes tone, pace and emotion on top of it.
+ */
+const voiceNameFor = (profile: VoiceProfile): string => {
+  const { scale } = profile.dimensions.pitch;
+  if (scale <= 3) return 'Charon';
+  if (scale >= 7) return 'Aoede';
+  return 'Kore';
+};
+
+const decodeBase64 = (data: string): Uint8Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+async function synthesize({ description, script, profile, signal }: SynthesisRequest, apiKey: string, model: string): Promise<Blob> {
+  if (!apiKey) {
+    throw new Error("A valid Gemini API key is required to preview the voice.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  let inlineData: { data?: string; mimeType?: string } | undefined;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: [{ text: `Read the following in this voice: ${description}\n\n${script}` }] },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceNameFor(profile) } },
+        },
+        abortSignal: signal,
+      },
+    });
+    inlineData = response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData)?.inlineData;
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      throw signal?.reason ?? error;
+    }
+    console.error("Gemini TTS Request Failed: Full error object:", error);
+    const classified = classifyError(error);
+    throw classified instanceof AnalysisError ? classified : new Error('The voice preview could not be generated. Please try again later.');
+  }
+
+  if (!inlineData?.data) {
+    throw new Error('The TTS model returned no audio. Try a shorter script or description.');
+  }
+
+  const rate = Number(inlineData.mimeType?.match(/rate=(\d+)/)?.[1]) || DEFAULT_PCM_SAMPLE_RATE;
+  return pcm16ToWav(decodeBase64(inlineData.data), rate);
+}
+
+/**
+ * Creates a TTS provider backed by Gemini's speech generation models.
+ * @param {string} apiKey The Gemini API key used for every request.
+ * @param {string} model The Gemini TTS model.
+ */
+export const createGeminiTtsProvider = (apiKey: string, model: string = DEFAULT_GEMINI_TTS_MODEL): TtsProvider => ({
+  id: 'gemini',
+  model,
+  synthesize: (request) => synthesize(request, apiKey, model),
+});
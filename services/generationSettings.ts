@@ -0,0 +1,65 @@
+import type { GenerationSettings } from "../types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
+
+/**
+ * Gemini models offered in the settings panel. Thinking budget limits are per
+ * the Gemini API docs; Pro cannot turn thinking off.
+ */
+export const GEMINI_MODELS: { id: string; label: string; minThinking: number; maxThinking: number; canDisableThinking: boolean }[] = [
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro (best quality)', minThinking: 128, maxThinking: 32768, canDisableThinking: false },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (fast, low cost)', minThinking: 1, maxThinking: 24576, canDisableThinking: true },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite (cheapest)', minThinking: 512, maxThinking: 24576, canDisableThinking: true },
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: DEFAULT_GEMINI_MODEL,
+  temperature: null,
+  maxOutputTokens: null,
+  thinkingBudget: null,
+  seed: null,
+};
+
+/**
+ * Returns a user-facing reason why the settings cannot be used, or an empty
+ * string if they are valid. Thinking budget is only checked for Gemini.
+ * @param {GenerationSettings} settings The settings to validate.
+ * @param {boolean} isGemini Whether the Gemini provider will use them.
+ */
+export const getGenerationSettingsError = (settings: GenerationSettings, isGemini: boolean): string => {
+  const { model, temperature, maxOutputTokens, thinkingBudget, seed } = settings;
+  if (isGemini && !model.trim()) {
+    return 'Please choose a Gemini model.';
+  }
+  if (temperature !== null && (temperature < 0 || temperature > 2)) {
+    return 'Temperature must be between 0 and 2.';
+  }
+  if (maxOutputTokens !== null && (!Number.isInteger(maxOutputTokens) || maxOutputTokens < 1)) {
+    return 'Max output tokens must be a whole number of at least 1.';
+  }
+  if (seed !== null && !Number.isInteger(seed)) {
+    return 'The seed must be a whole number.';
+  }
+  const knownModel = GEMINI_MODELS.find(({ id }) => id === model);
+  if (isGemini && thinkingBudget !== null && thinkingBudget !== -1 && knownModel) {
+    const { minThinking, maxThinking, canDisableThinking } = knownModel;
+    const isDisabled = thinkingBudget === 0 && canDisableThinking;
+    if (!isDisabled && (!Number.isInteger(thinkingBudget) || thinkingBudget < minThinking || thinkingBudget > maxThinking)) {
+      return `${knownModel.label.split(' (')[0]} accepts a thinking budget of ${minThinking}-${maxThinking} tokens${canDisableThinking ? ', 0 to disable thinking' : ''}, or -1 for dynamic.`;
+    }
+  }
+  return '';
+};
+
+/**
+ * Summarizes the non-default parameters for display next to a result.
+ */
+export const describeGenerationSettings = ({ temperature, maxOutputTokens, thinkingBudget, seed }: GenerationSettings): string => {
+  const parts = [
+    temperature !== null && `temperature ${temperature}`,
+    maxOutputTokens !== null && `max ${maxOutputTokens} tokens`,
+    thinkingBudget !== null && (thinkingBudget === -1 ? 'dynamic thinking' : `thinking budget ${thinkingBudget}`),
+    seed !== null && `seed ${seed}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'model defaults';
+};
@@ -0,0 +1,72 @@
+import type { HistoryEntry } from "../types";
+
+const DB_NAME = 'voice-tone-analyzer';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Lazily opens (and on first use, creates) the history database.
+ * The connection is shared across all calls.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('Local history is not supported in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the local history database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the analyses store and resolves with its result.
+ */
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The history transaction was aborted.'));
+  });
+};
+
+/**
+ * Returns every saved analysis, newest first.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest<HistoryEntry[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Inserts or replaces a saved analysis.
+ */
+export const putHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await runRequest('readwrite', (store) => store.put(entry));
+};
+
+/**
+ * Removes a saved analysis by id.
+ */
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,125 @@
+import type { SpeakerProfile, SpeakerSegment, SpokenLanguage, VoiceDimensionKey, VoiceProfile } from "../types";
+import { VOICE_DIMENSIONS } from "../utils/voiceProfile";
+import type { AnalysisOptions, AnalysisProvider, RefinementRequest } from "./analysisProvider";
+
+const MOCK_LATENCY_MS = 800;
+const MOCK_STREAM_CHUNKS = 12;
+const MOCK_TURN_SECONDS = 5;
+
+// Labels are indexed by scale bucket: low (0-3), medium (4-6), high (7-10).
+const MOCK_LABELS: Record<VoiceDimensionKey, [string, string, string]> = {
+  tone: ['cool and reserved', 'calm and even', 'warm and friendly'],
+  pitch: ['low-pitched', 'medium-pitched', 'high-pitched'],
+  pace: ['slow and deliberate', 'moderate and conversational', 'fast and lively'],
+  articulation: ['soft and relaxed', 'clear', 'crisp and precise'],
+  timbre: ['rich and resonant', 'smooth', 'bright and airy'],
+  emotion: ['subdued', 'sincere', 'enthusiastic'],
+};
+
+const MOCK_LANGUAGES: Omit<SpokenLanguage, 'confidence' | 'accentConfidence'>[] = [
+  { name: 'English', code: 'en-US', accent: 'General American' },
+  { name: 'English', code: 'en-GB', accent: 'Southern British' },
+  { name: 'Spanish', code: 'es-MX', accent: 'Mexican (Mexico City)' },
+  { name: 'German', code: 'de-DE', accent: '' },
+];
+
+/**
+ * FNV-1a hash, so the same audio always produces the same mock profile.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const bucketFor = (scale: number): 0 | 1 | 2 => (scale <= 3 ? 0 : scale <= 6 ? 1 : 2);
+
+const buildMockProfile = (base64Audio: string): VoiceProfile => {
+  // Sample the payload rather than hashing megabytes of base64 on every call.
+  const seed = hashString(`${base64Audio.length}:${base64Audio.slice(0, 4096)}:${base64Audio.slice(-4096)}`);
+  const dimensions = {} as VoiceProfile['dimensions'];
+  VOICE_DIMENSIONS.forEach(({ key }, index) => {
+    const scale = (seed >>> (index * 4)) % 11;
+    dimensions[key] = {
+      label: MOCK_LABELS[key][bucketFor(scale)],
+      scale,
+      confidence: 0.5,
+      notes: 'Generated by the offline mock provider; not a real analysis.',
+    };
+  });
+
+  const { tone, pitch, pace, articulation, timbre, emotion } = dimensions;
+  const language = MOCK_LANGUAGES[seed % MOCK_LANGUAGES.length];
+  return {
+    language: { ...language, confidence: 0.5, accentConfidence: language.accent ? 0.5 : 0 },
+    dimensions,
+    confidence: 0.5,
+    ttsPrompt: `A ${pitch.label} voice with a ${tone.label} tone. The pace is ${pace.label}, with ${articulation.label} articulation. The timbre is ${timbre.label}, conveying a ${emotion.label} mood.`,
+  };
+};
+
+/**
+ * Splits the clip into alternating turns between two speakers.
+ */
+const buildMockSpeakers = (seedText: string, durationSeconds: number): SpeakerProfile[] => {
+  const turns: SpeakerSegment[][] = [[], []];
+  for (let start = 0, turn = 0; start < durationSeconds; start += MOCK_TURN_SECONDS, turn++) {
+    turns[turn % 2].push({ start, end: Math.min(durationSeconds, start + MOCK_TURN_SECONDS) });
+  }
+  return turns
+    .filter((segments) => segments.length > 0)
+    .map((segments, index) => ({
+      label: `Speaker ${index + 1}`,
+      segments,
+      profile: buildMockProfile(`${seedText}:speaker-${index + 1}`),
+    }));
+};
+
+/**
+ * Applies a refinement instruction with simple text rules: a word limit or a
+ * request to shorten is honoured, anything else is noted on the prompt.
+ */
+const refineMockProfile = ({ original, turns, instruction }: RefinementRequest): VoiceProfile => {
+  const previous = turns.length > 0 ? turns[turns.length - 1].profile : original;
+  const wordLimit = Number(instruction.match(/(\d+)\s*words/i)?.[1]);
+  let ttsPrompt: string;
+  if (wordLimit > 0) {
+    ttsPrompt = previous.ttsPrompt.split(/\s+/).slice(0, wordLimit).join(' ');
+  } else if (/short|brief|concise/i.test(instruction)) {
+    ttsPrompt = previous.ttsPrompt.split(/(?<=\.)\s+/)[0];
+  } else {
+    ttsPrompt = `${previous.ttsPrompt} Adjusted for: "${instruction.trim()}".`;
+  }
+  return { ...previous, ttsPrompt };
+};
+
+/**
+ * Emits the result's JSON in chunks over MOCK_LATENCY_MS, like a streaming API would.
+ */
+const streamMockResult = async <T>(result: T, options: AnalysisOptions): Promise<T> => {
+  const json = JSON.stringify(result);
+  const chunkSize = Math.ceil(json.length / MOCK_STREAM_CHUNKS);
+  for (let end = chunkSize; ; end += chunkSize) {
+    await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS / MOCK_STREAM_CHUNKS));
+    options.signal?.throwIfAborted();
+    options.onPartialText?.(json.slice(0, end));
+    if (end >= json.length) return result;
+  }
+};
+
+/**
+ * Creates a deterministic, network-free provider for developing and testing the UI.
+ */
+export const createMockProvider = (): AnalysisProvider => ({
+  id: 'mock',
+  model: 'mock',
+  analyzeVoiceTone: (audio, options = {}) => streamMockResult(buildMockProfile(audio.kind === 'inline' ? audio.base64 : audio.uri), options),
+  analyzeSpeakers: (audio, options = {}) => streamMockResult(
+    buildMockSpeakers(audio.kind === 'inline' ? audio.base64 : audio.uri, options.acousticFeatures?.durationSeconds ?? 30),
+    options
+  ),
+  refineVoiceTone: (_audio, request, options = {}) => streamMockResult(refineMockProfile(request), options),
+});
@@ -0,0 +1,57 @@
+import type { VoiceProfile } from "../types";
+import { pcm16ToWav } from "../utils/wavEncoder";
+import type { SynthesisRequest, TtsProvider } from "./ttsProvider";
+
+const MOCK_LATENCY_MS = 600;
+const SAMPLE_RATE = 16000;
+const MAX_SECONDS = 30;
+const HARMONICS = 8;
+
+/**
+ * Rough syllable count: one per vowel group, at least one per word.
+ */
+const countSyllables = (script: string): number =>
+  script.split(/\s+/).filter(Boolean).reduce((sum, word) => sum + Math.max(1, word.match(/[aeiouy]+/gi)?.length ?? 0), 0);
+
+/**
+ * Renders a buzzy, syllable-shaped tone whose pitch, rate and loudness follow
+ * the profile's scales. It is not speech, but it is real audio the analyzers
+ * and players can work with offline.
+ */
+const renderPcm = (profile: VoiceProfile, script: string): Uint8Array => {
+  const { pitch, pace, emotion } = profile.dimensions;
+  const f0 = 90 + pitch.scale * 18;
+  const syllablesPerSecond = 2.5 + pace.scale * 0.35;
+  const amplitude = 0.15 + emotion.scale * 0.04;
+  const syllables = Math.max(1, countSyllables(script));
+  const seconds = Math.min(MAX_SECONDS, syllables / syllablesPerSecond + 0.5);
+  const samples = new Int16Array(Math.round(seconds * SAMPLE_RATE));
+
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const syllablePhase = (t * syllablesPerSecond) % 1;
+    // Voiced for the first 70% of each syllable with a smooth rise and fall, then silent.
+    const envelope = syllablePhase < 0.7 ? Math.sin((Math.PI * syllablePhase) / 0.7) : 0;
+    let value = 0;
+    for (let h = 1; h <= HARMONICS; h++) {
+      value += Math.sin(2 * Math.PI * f0 * h * t) / h;
+    }
+    samples[i] = Math.round(Math.max(-1, Math.min(1, value * envelope * amplitude * 0.5)) * 0x7fff);
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+const synthesize = async ({ profile, script, signal }: SynthesisRequest): Promise<Blob> => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+  signal?.throwIfAborted();
+  return pcm16ToWav(renderPcm(profile, script), SAMPLE_RATE);
+};
+
+/**
+ * Creates a network-free TTS provider for developing the preview flow offline.
+ */
+export const createMockTtsProvider = (): TtsProvider => ({
+  id: 'mock',
+  model: 'mock',
+  synthesize,
+});
@@ -0,0 +1,200 @@
+import type { GenerationSettings, SpeakerProfile, VoiceProfile } from "../types";
+import { parseSpeakerProfiles, parseVoiceProfile } from "../utils/voiceProfile";
+import { buildAnalysisPrompt, buildRefinementPrompt, buildSpeakerPrompt, JSON_FORMAT_INSTRUCTIONS, SPEAKER_JSON_FORMAT_INSTRUCTIONS } from "./analysisPrompt";
+import { AnalysisError, classifyHttpError, isAbortError } from "./analysisErrors";
+import type { AnalysisAudio, AnalysisOptions, AnalysisProvider, RefinementRequest } from "./analysisProvider";
+
+interface OpenAiCompatibleOptions {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  /** Temperature, max tokens and seed are forwarded; the model and thinking budget are not. */
+  generation?: GenerationSettings;
+}
+
+/**
+ * Reads an OpenAI-style server-sent event stream and returns the concatenated
+ * content deltas, reporting the running text after each one.
+ */
+async function readCompletionStream(body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+      let event: { choices?: { delta?: { content?: unknown } }[] } | null;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // A garbled event usually means the server or a proxy in front of it cut the stream; worth retrying.
+        throw new AnalysisError('server', { detail: 'The response stream contained an unreadable event.' });
+      }
+      const delta = event?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+}
+
+/**
+ * Maps a MIME type to the `input_audio.format` value expected by
+ * OpenAI-style chat completion endpoints (e.g. "audio/mpeg" -> "mp3").
+ */
+const audioFormatFor = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(';')[0] ?? '';
+  switch (subtype) {
+    case 'mpeg':
+    case 'mp3':
+      return 'mp3';
+    case 'wav':
+    case 'wave':
+    case 'x-wav':
+      return 'wav';
+    default:
+      return subtype;
+  }
+};
+
+type ChatMessage =
+  | { role: 'user'; content: string | ({ type: 'text'; text: string } | { type: 'input_audio'; input_audio: { data: string; format: string } })[] }
+  | { role: 'assistant'; content: string };
+
+/**
+ * Builds the opening user message: the prompt, followed by the clip if there is one.
+ */
+const userMessage = (prompt: string, audio: AnalysisAudio | null): ChatMessage => {
+  if (!audio) {
+    return { role: 'user', content: prompt };
+  }
+  if (audio.kind !== 'inline') {
+    throw new Error('OpenAI-compatible endpoints only accept inline audio.');
+  }
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text: prompt },
+      { type: 'input_audio', input_audio: { data: audio.base64, format: audioFormatFor(audio.mimeType) } },
+    ],
+  };
+};
+
+/**
+ * Sends the conversation as a streaming chat completion and parses the JSON
+ * reply. Some servers wrap JSON mode output in a markdown code fence, which is stripped.
+ */
+async function requestJson(messages: ChatMessage[], options: OpenAiCompatibleOptions, analysisOptions: AnalysisOptions): Promise<unknown> {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+
+  let responseText: string;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model,
+        stream: true,
+        ...(options.generation?.temperature != null && { temperature: options.generation.temperature }),
+        ...(options.generation?.maxOutputTokens != null && { max_tokens: options.generation.maxOutputTokens }),
+        ...(options.generation?.seed != null && { seed: options.generation.seed }),
+        response_format: { type: 'json_object' },
+        messages,
+      }),
+      signal: analysisOptions.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      console.error(`OpenAI-compatible request failed with status ${response.status}:`, body);
+      throw classifyHttpError(response.status, body, response.headers.get('retry-after'));
+    }
+
+    if (!response.body) {
+      throw new AnalysisError('invalid-response', { detail: 'The endpoint returned an empty response.' });
+    }
+    responseText = await readCompletionStream(response.body, (text) => analysisOptions.onPartialText?.(text));
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    if (error instanceof TypeError) {
+      // fetch() rejects with a TypeError for network and CORS failures.
+      console.error("OpenAI-compatible request failed:", error);
+      throw new AnalysisError('network', { detail: `No response from ${options.baseUrl}.` });
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, ''));
+  } catch (error) {
+    console.error("OpenAI-compatible endpoint returned invalid JSON:", responseText, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+async function analyzeVoiceTone(audio: AnalysisAudio, options: OpenAiCompatibleOptions, analysisOptions: AnalysisOptions = {}): Promise<VoiceProfile> {
+  const prompt = `${buildAnalysisPrompt(analysisOptions.acousticFeatures, analysisOptions.instructions)}\n${JSON_FORMAT_INSTRUCTIONS}`;
+  const json = await requestJson([userMessage(prompt, audio)], options, analysisOptions);
+  try {
+    return parseVoiceProfile(json);
+  } catch (error) {
+    console.error("OpenAI-compatible endpoint returned an unexpected analysis format:", json, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+async function analyzeSpeakers(audio: AnalysisAudio, options: OpenAiCompatibleOptions, analysisOptions: AnalysisOptions = {}): Promise<SpeakerProfile[]> {
+  const prompt = `${buildSpeakerPrompt(analysisOptions.instructions)}\n${SPEAKER_JSON_FORMAT_INSTRUCTIONS}`;
+  const json = await requestJson([userMessage(prompt, audio)], options, analysisOptions);
+  try {
+    return parseSpeakerProfiles(json);
+  } catch (error) {
+    console.error("OpenAI-compatible endpoint returned an unexpected speaker analysis format:", json, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+async function refineVoiceTone(audio: AnalysisAudio | null, request: RefinementRequest, options: OpenAiCompatibleOptions, analysisOptions: AnalysisOptions = {}): Promise<VoiceProfile> {
+  const prompt = `${buildAnalysisPrompt(analysisOptions.acousticFeatures, analysisOptions.instructions)}\n${JSON_FORMAT_INSTRUCTIONS}`;
+  const followUp = (instruction: string): ChatMessage => ({ role: 'user', content: buildRefinementPrompt(instruction, audio !== null) });
+  const answer = (profile: VoiceProfile): ChatMessage => ({ role: 'assistant', content: JSON.stringify(profile) });
+  const json = await requestJson([
+    userMessage(prompt, audio),
+    answer(request.original),
+    ...request.turns.flatMap(({ instruction, profile }) => [followUp(instruction), answer(profile)]),
+    followUp(request.instruction),
+  ], options, analysisOptions);
+  try {
+    return parseVoiceProfile(json);
+  } catch (error) {
+    console.error("OpenAI-compatible endpoint returned an unexpected refinement format:", json, error);
+    throw new AnalysisError('invalid-response');
+  }
+}
+
+/**
+ * Creates an analysis provider for any server exposing an OpenAI-style
+ * `/chat/completions` endpoint with audio input, such as a self-hosted model.
+ */
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions): AnalysisProvider => ({
+  id: 'openai-compatible',
+  model: options.model,
+  generation: options.generation,
+  analyzeVoiceTone: (audio, analysisOptions) => analyzeVoiceTone(audio, options, analysisOptions),
+  analyzeSpeakers: (audio, analysisOptions) => analyzeSpeakers(audio, options, analysisOptions),
+  refineVoiceTone: (audio, request, analysisOptions) => refineVoiceTone(audio, request, options, analysisOptions),
+});
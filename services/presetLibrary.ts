@@ -0,0 +1,153 @@
+import type { ExportedProfile, VoicePreset, VoiceProfile } from '../types';
+import { parseProfilesJson } from '../utils/exportUtils';
+import { parseVoiceProfile } from '../utils/voiceProfile';
+
+const PRESET_PACK_FORMAT = 'voice-tone-analyzer/preset-pack';
+const PRESET_PACK_VERSION = 1;
+
+/**
+ * The presets that ship with the app. They are read-only; duplicate one to change it.
+ */
+export const SEED_PRESETS: VoicePreset[] = [
+  {
+    id: 'seed-warm-friendly',
+    name: 'Warm & Friendly',
+    category: 'Conversational',
+    tags: ['warm', 'friendly', 'female'],
+    notes: 'Approachable everyday voice for explainers, onboarding and customer support.',
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+    profile: {
+      dimensions: {
+        tone: { label: 'Warm, friendly and engaging', scale: 9, confidence: 1, notes: '' },
+        pitch: { label: 'Medium-pitched', scale: 5, confidence: 1, notes: '' },
+        pace: { label: 'Relaxed and conversational', scale: 4, confidence: 1, notes: '' },
+        articulation: { label: 'Very clear', scale: 8, confidence: 1, notes: '' },
+        timbre: { label: 'Smooth and pleasant', scale: 5, confidence: 1, notes: '' },
+        emotion: { label: 'Sincere and positive', scale: 6, confidence: 1, notes: '' },
+      },
+      confidence: 1,
+      ttsPrompt: 'A medium-pitched female voice with a warm, friendly, and engaging tone. The pace is relaxed and conversational, with very clear articulation. The timbre is smooth and pleasant, conveying a sense of genuine sincerity and positivity.'
+    }
+  },
+  {
+    id: 'seed-authoritative-clear',
+    name: 'Authoritative & Clear',
+    category: 'Corporate',
+    tags: ['authoritative', 'formal', 'male'],
+    notes: 'Measured and credible, for corporate narration, training and announcements.',
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+    profile: {
+      dimensions: {
+        tone: { label: 'Confident and authoritative', scale: 4, confidence: 1, notes: '' },
+        pitch: { label: 'Low-pitched', scale: 2, confidence: 1, notes: '' },
+        pace: { label: 'Deliberate and measured', scale: 3, confidence: 1, notes: '' },
+        articulation: { label: 'Precise, emphasizing key points', scale: 9, confidence: 1, notes: '' },
+        timbre: { label: 'Rich and resonant', scale: 2, confidence: 1, notes: '' },
+        emotion: { label: 'Professional and assured', scale: 5, confidence: 1, notes: '' },
+      },
+      confidence: 1,
+      ttsPrompt: 'A low-pitched male voice with a confident and authoritative tone. The pace is deliberate and measured, with precise articulation, emphasizing key points. The timbre is rich and resonant, projecting professionalism and expertise.'
+    }
+  },
+  {
+    id: 'seed-energetic-upbeat',
+    name: 'Energetic & Upbeat',
+    category: 'Advertising',
+    tags: ['energetic', 'upbeat', 'female'],
+    notes: 'High energy for ads, promos and social clips.',
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+    profile: {
+      dimensions: {
+        tone: { label: 'Energetic and upbeat', scale: 8, confidence: 1, notes: '' },
+        pitch: { label: 'High-pitched, dynamic inflection', scale: 8, confidence: 1, notes: '' },
+        pace: { label: 'Fast and lively', scale: 8, confidence: 1, notes: '' },
+        articulation: { label: 'Clear', scale: 7, confidence: 1, notes: '' },
+        timbre: { label: 'Bright and crisp', scale: 8, confidence: 1, notes: '' },
+        emotion: { label: 'Enthusiastic and excited', scale: 9, confidence: 1, notes: '' },
+      },
+      confidence: 1,
+      ttsPrompt: 'A high-pitched female voice with an energetic and upbeat tone. The pace is fast and lively, with a dynamic range of inflection. The timbre is bright and crisp, conveying enthusiasm and excitement.'
+    }
+  }
+];
+
+/**
+ * A preset as it travels in a pack file, without the fields that only make sense locally.
+ */
+export type PackedPreset = Pick<VoicePreset, 'name' | 'category' | 'tags' | 'notes' | 'source' | 'profile'>;
+
+/**
+ * Serializes presets as a versioned preset pack that can be imported again.
+ */
+export const presetsToPack = (presets: VoicePreset[], name: string): string =>
+  JSON.stringify(
+    {
+      format: PRESET_PACK_FORMAT,
+      version: PRESET_PACK_VERSION,
+      name,
+      exportedAt: new Date().toISOString(),
+      presets: presets.map(({ name, category, tags, notes, source, profile }): PackedPreset => ({ name, category, tags, notes, source, profile })),
+    },
+    null,
+    2
+  );
+
+const optionalString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Builds presets from exported profiles, so a profile export can be imported as a pack.
+ */
+const profilesToPresets = (profiles: ExportedProfile[]): PackedPreset[] =>
+  profiles.map(({ name, fileName, tags, profile }) => ({ name, category: '', tags: tags ?? [], notes: '', source: fileName, profile }));
+
+/**
+ * Parses a preset pack file, validating every profile in it. Profile exports
+ * from the history panel are accepted too.
+ * @param {string} text The file contents.
+ * @returns {{ name: string; presets: PackedPreset[] }} The pack name and its presets.
+ */
+export const parsePresetPack = (text: string): { name: string; presets: PackedPreset[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const raw = (data ?? {}) as { format?: unknown; name?: unknown; presets?: unknown };
+  if (raw.format !== PRESET_PACK_FORMAT) {
+    try {
+      return { name: '', presets: profilesToPresets(parseProfilesJson(text)) };
+    } catch {
+      throw new Error('The file is not a Voice Tone Analyzer preset pack.');
+    }
+  }
+  if (!Array.isArray(raw.presets)) {
+    throw new Error('The preset pack does not contain any presets.');
+  }
+
+  const presets = raw.presets.map((entry, index): PackedPreset => {
+    const preset = (entry ?? {}) as Record<string, unknown>;
+    let profile: VoiceProfile;
+    try {
+      profile = parseVoiceProfile(preset.profile);
+    } catch (err) {
+      throw new Error(`Preset ${index + 1}: ${err instanceof Error ? err.message : 'invalid profile.'}`);
+    }
+    return {
+      name: optionalString(preset.name) || `Imported preset ${index + 1}`,
+      category: optionalString(preset.category),
+      tags: Array.isArray(preset.tags) ? preset.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      notes: optionalString(preset.notes),
+      source: optionalString(preset.source) || undefined,
+      profile,
+    };
+  });
+  return { name: optionalString(raw.name), presets };
+};
@@ -0,0 +1,166 @@
+import type { PromptOutputStyle, PromptTemplate, PromptTemplateVariables, PromptTemplateVersion } from "../types";
+import { VOICE_DIMENSIONS } from "../utils/voiceProfile";
+
+export const OUTPUT_STYLE_LABELS: Record<PromptOutputStyle, string> = {
+  paragraph: 'Descriptive paragraph',
+  concise: 'Concise (one or two sentences)',
+  detailed: 'Detailed',
+  direction: 'Director’s notes',
+};
+
+const OUTPUT_STYLE_INSTRUCTIONS: Record<PromptOutputStyle, string> = {
+  paragraph: 'The prompt should be a single paragraph of descriptive text.',
+  concise: 'The prompt should be one or two short sentences covering only the most distinctive traits.',
+  detailed: 'The prompt should be a rich, detailed paragraph that also covers range, dynamics and any distinctive habits of delivery.',
+  direction: 'Write the prompt as direction to a voice actor, in the second person (e.g. "Speak with...").',
+};
+
+/**
+ * Placeholders a template body may use, with a short description for the editor.
+ */
+export const PROMPT_PLACEHOLDERS: Record<keyof PromptTemplateVariables, string> = {
+  language: 'Language for labels, notes and the TTS prompt',
+  maxLength: 'Maximum TTS prompt length in characters',
+  dimensions: 'The characteristics the TTS prompt should describe',
+  outputStyle: 'Instruction for the TTS prompt style',
+};
+
+export const DEFAULT_TEMPLATE_VARIABLES: PromptTemplateVariables = {
+  language: 'English',
+  maxLength: 600,
+  dimensions: VOICE_DIMENSIONS.map(({ key }) => key),
+  outputStyle: 'paragraph',
+};
+
+export const DEFAULT_TEMPLATE_BODY = `You are an expert voice analyst. Your task is to analyze the provided audio clip and generate a detailed, descriptive prompt that can be used in a Text-to-Speech (TTS) generator to replicate a similar voice style.
+
+Analyze the following characteristics of the voice:
+- **Tone**: Is it warm, friendly, authoritative, calm, energetic, melancholic?
+- **Pitch**: Is it high, low, medium? Does it have a wide or narrow range?
+- **Pace**: Is the speech fast, slow, moderate? Are there pauses?
+- **Articulation**: Is it crisp and clear, or soft and mumbled?
+- **Timbre**: Describe the quality of the voice (e.g., raspy, smooth, breathy, rich, nasal).
+- **Emotion**: What emotions are conveyed? (e.g., happiness, sincerity, confidence).
+
+Finally, synthesize the voice's {{dimensions}} into a concise and effective TTS prompt of at most {{maxLength}} characters. {{outputStyle}} Start the description directly, without any preamble like "This voice has..." or "Here is the description:".
+
+Write every label, note and the TTS prompt in {{language}}.
+
+Example TTS prompt:
+"A medium-pitched male voice with a warm, friendly, and reassuring tone. The pace is moderate and conversational, with clear articulation. The timbre is smooth and rich, conveying a sense of calm confidence and sincerity."`;
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Default',
+  builtIn: true,
+  versions: [{ version: 1, body: DEFAULT_TEMPLATE_BODY, variables: DEFAULT_TEMPLATE_VARIABLES, createdAt: 0, note: 'Built-in template' }],
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const joinList = (items: string[]): string =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const renderVariable = (name: keyof PromptTemplateVariables, variables: PromptTemplateVariables): string => {
+  switch (name) {
+    case 'language':
+      return variables.language.trim() || DEFAULT_TEMPLATE_VARIABLES.language;
+    case 'maxLength':
+      return String(variables.maxLength);
+    case 'dimensions': {
+      const included = VOICE_DIMENSIONS.filter(({ key }) => variables.dimensions.includes(key));
+      return joinList((included.length ? included : VOICE_DIMENSIONS).map(({ title }) => title.toLowerCase()));
+    }
+    case 'outputStyle':
+      return OUTPUT_STYLE_INSTRUCTIONS[variables.outputStyle];
+  }
+};
+
+const isPlaceholder = (name: string): name is keyof PromptTemplateVariables =>
+  Object.prototype.hasOwnProperty.call(PROMPT_PLACEHOLDERS, name);
+
+/**
+ * Substitutes a template's placeholders. Unknown placeholders are left as written.
+ * @param {string} body The template text.
+ * @param {PromptTemplateVariables} variables The values to substitute.
+ * @returns {string} The rendered instructions.
+ */
+export const renderPromptTemplate = (body: string, variables: PromptTemplateVariables): string =>
+  body.replace(PLACEHOLDER_PATTERN, (match, name: string) => (isPlaceholder(name) ? renderVariable(name, variables) : match));
+
+/**
+ * Lists placeholders in a template body that will not be substituted.
+ */
+export const findUnknownPlaceholders = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER_PATTERN), ([, name]) => name).filter((name) => !isPlaceholder(name))));
+
+export const currentVersion = (template: PromptTemplate): PromptTemplateVersion => template.versions[template.versions.length - 1];
+
+/**
+ * Output language value meaning "whatever language is spoken in the clip".
+ */
+export const SPOKEN_LANGUAGE = 'spoken';
+
+/**
+ * Languages offered for the output language setting. Any other name works too.
+ */
+export const OUTPUT_LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Portuguese',
+  'Dutch',
+  'Polish',
+  'Turkish',
+  'Arabic',
+  'Hindi',
+  'Japanese',
+  'Korean',
+  'Chinese (Simplified)',
+];
+
+const LANGUAGE_PLACEHOLDER = /\{\{\s*language\s*\}\}/;
+
+/**
+ * Substitutes a template's placeholders, letting an output language chosen
+ * outside the template (the app setting or the CLI's --language) replace the
+ * template's own. A body without `{{language}}` gets the language appended as
+ * an instruction instead.
+ * @param {string} body The template text.
+ * @param {PromptTemplateVariables} variables The template's values.
+ * @param {string} outputLanguage A language name, SPOKEN_LANGUAGE, or empty to keep the template's.
+ */
+export const renderWithOutputLanguage = (body: string, variables: PromptTemplateVariables, outputLanguage: string = ''): string => {
+  const language = outputLanguage.trim() === SPOKEN_LANGUAGE ? 'the language spoken in the clip' : outputLanguage.trim();
+  if (!language) return renderPromptTemplate(body, variables);
+  const instructions = renderPromptTemplate(body, { ...variables, language });
+  return LANGUAGE_PLACEHOLDER.test(body) ? instructions : `${instructions}\n\nWrite every label, note and the TTS prompt in ${language}.`;
+};
+
+/**
+ * Renders the current version of a template into analysis instructions.
+ * @param {PromptTemplate} template The template to render.
+ * @param {string} outputLanguage Overrides the template's language when set; see renderWithOutputLanguage.
+ */
+export const renderTemplateInstructions = (template: PromptTemplate, outputLanguage: string = ''): string => {
+  const { body, variables } = currentVersion(template);
+  return renderWithOutputLanguage(body, variables, outputLanguage);
+};
+
+/**
+ * Flattens a version into text for diffing, with its variables listed after the body.
+ */
+export const versionToText = ({ body, variables }: PromptTemplateVersion): string =>
+  [
+    body,
+    '',
+    '--- Variables ---',
+    `language: ${variables.language}`,
+    `maxLength: ${variables.maxLength}`,
+    `dimensions: ${variables.dimensions.join(', ')}`,
+    `outputStyle: ${variables.outputStyle}`,
+  ].join('\n');
@@ -0,0 +1,146 @@
+import type { AcousticFeatures, GenerationSettings } from "../types";
+import { parseSpeakerProfiles, parseVoiceProfile } from "../utils/voiceProfile";
+import { AnalysisError, classifyHttpError, isAbortError } from "./analysisErrors";
+import type { AnalysisErrorKind } from "./analysisErrors";
+import { DEFAULT_GENERATION_SETTINGS } from "./generationSettings";
+import type { AnalysisAudio, AnalysisOptions, AnalysisProvider, RefinementRequest } from "./analysisProvider";
+
+/**
+ * Base URL of the backend proxy (see `server/`), set at build time. When it is
+ * set, Gemini requests go through the proxy and the key stays on the server.
+ */
+export const ANALYSIS_PROXY_URL: string = process.env.ANALYSIS_PROXY_URL ?? '';
+
+export type ProxyTask = 'voice' | 'speakers' | 'refine';
+
+/** The body of `POST /analyze`. */
+export interface ProxyAnalyzeRequest {
+  task: ProxyTask;
+  /** Inline audio; null only when refining a result without a clip. */
+  audio: { base64: string; mimeType: string } | null;
+  generation: GenerationSettings;
+  acousticFeatures?: AcousticFeatures | null;
+  instructions?: string;
+  /** Required when `task` is `refine`. */
+  refinement?: RefinementRequest;
+}
+
+/**
+ * One line of the newline-delimited JSON stream `POST /analyze` responds with.
+ * Failures before the stream starts (limits, bad requests) are plain HTTP errors.
+ */
+export type ProxyEvent =
+  | { type: 'partial'; text: string }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string; kind?: AnalysisErrorKind; status?: number; retryAfterMs?: number };
+
+/**
+ * Throws the error for a non-OK proxy response. Limits and outages are
+ * classified so they are retried; other refusals carry the proxy's own
+ * explanation (e.g. a model the server does not allow).
+ */
+export const throwForProxyResponse = async (response: Response): Promise<never> => {
+  const body = await response.text().catch(() => '');
+  const classified = classifyHttpError(response.status, body, response.headers.get('Retry-After'));
+  if (classified.retryable || classified.kind === 'payload-too-large') {
+    throw classified;
+  }
+  let message: unknown;
+  try {
+    message = JSON.parse(body)?.error?.message;
+  } catch {
+    // Not a proxy error body, e.g. a 404 page from a misconfigured URL.
+  }
+  throw typeof message === 'string' && message ? new Error(message) : classified;
+};
+
+/**
+ * Reads the event stream, reporting partial text and resolving with the result.
+ */
+async function readProxyEvents(body: ReadableStream<Uint8Array>, onPartialText?: (text: string) => void): Promise<unknown> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let event: ProxyEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // A garbled line usually means the proxy or something in front of it cut the stream; worth retrying.
+        throw new AnalysisError('server', { detail: 'The proxy sent an unreadable event.' });
+      }
+      if (event.type === 'partial') {
+        onPartialText?.(event.text);
+      } else if (event.type === 'result') {
+        return event.result;
+      } else {
+        throw event.kind
+          ? new AnalysisError(event.kind, { status: event.status, retryAfterMs: event.retryAfterMs })
+          : new Error(event.message);
+      }
+    }
+  }
+  throw new AnalysisError('network', { detail: 'The proxy closed the connection before the analysis finished.' });
+}
+
+async function analyzeThroughProxy(
+  baseUrl: string,
+  request: ProxyAnalyzeRequest,
+  options: AnalysisOptions
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl.replace(/\/+$/, '')}/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw options.signal?.reason ?? error;
+    throw new AnalysisError('network');
+  }
+  if (!response.ok || !response.body) {
+    return throwForProxyResponse(response);
+  }
+  return readProxyEvents(response.body, options.onPartialText);
+}
+
+const inlineAudio = (audio: AnalysisAudio | null): ProxyAnalyzeRequest['audio'] => {
+  if (!audio) return null;
+  if (audio.kind !== 'inline') {
+    throw new Error('The analysis proxy only accepts inline audio.');
+  }
+  return { base64: audio.base64, mimeType: audio.mimeType };
+};
+
+/**
+ * Creates an analysis provider that runs Gemini through the backend proxy, so
+ * the browser never holds the API key. Clips are always sent inline; the
+ * proxy enforces its own size and rate limits.
+ * @param {string} baseUrl The proxy's API root, e.g. "/api".
+ * @param {GenerationSettings} generation The model and generation parameters to run the analysis with.
+ */
+export const createProxyProvider = (baseUrl: string, generation: GenerationSettings = DEFAULT_GENERATION_SETTINGS): AnalysisProvider => {
+  const send = (task: ProxyTask, audio: AnalysisAudio | null, options: AnalysisOptions = {}, refinement?: RefinementRequest) =>
+    analyzeThroughProxy(
+      baseUrl,
+      { task, audio: inlineAudio(audio), generation, acousticFeatures: options.acousticFeatures, instructions: options.instructions, refinement },
+      options
+    );
+
+  return {
+    id: 'gemini',
+    model: generation.model,
+    generation,
+    analyzeVoiceTone: async (audio, options) => parseVoiceProfile(await send('voice', audio, options)),
+    analyzeSpeakers: async (audio, options) => parseSpeakerProfiles({ speakers: await send('speakers', audio, options) }),
+    refineVoiceTone: async (audio, request, options) => parseVoiceProfile(await send('refine', audio, options, request)),
+  };
+};
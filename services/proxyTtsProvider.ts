@@ -0,0 +1,41 @@
+import type { VoiceProfile } from "../types";
+import { AnalysisError, isAbortError } from "./analysisErrors";
+import { throwForProxyResponse } from "./proxyProvider";
+import { DEFAULT_GEMINI_TTS_MODEL } from "./geminiTtsService";
+import type { TtsProvider } from "./ttsProvider";
+
+/** The body of `POST /tts`; the response is the rendered audio. */
+export interface ProxyTtsRequest {
+  description: string;
+  script: string;
+  profile: VoiceProfile;
+}
+
+/**
+ * Creates a TTS provider that renders previews through the backend proxy, so
+ * Gemini TTS also runs without a key in the browser.
+ * @param {string} baseUrl The proxy's API root, e.g. "/api".
+ */
+export const createProxyTtsProvider = (baseUrl: string): TtsProvider => ({
+  id: 'gemini',
+  model: DEFAULT_GEMINI_TTS_MODEL,
+  synthesize: async ({ description, script, profile, signal }) => {
+    const body: ProxyTtsRequest = { description, script, profile };
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/tts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw signal?.reason ?? error;
+      throw new AnalysisError('network');
+    }
+    if (!response.ok) {
+      return throwForProxyResponse(response);
+    }
+    return response.blob();
+  },
+});
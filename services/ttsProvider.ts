@@ -0,0 +1,48 @@
+import type { VoiceProfile } from "../types";
+import { createGeminiTtsProvider } from "./geminiTtsService";
+import { createMockTtsProvider } from "./mockTtsProvider";
+import { ANALYSIS_PROXY_URL } from "./proxyProvider";
+import { createProxyTtsProvider } from "./proxyTtsProvider";
+import type { ProviderSettings } from "./analysisProvider";
+
+export type TtsProviderId = 'gemini' | 'mock';
+
+export interface SynthesisRequest {
+  /** The natural-language voice description to perform. */
+  description: string;
+  /** The words to speak. */
+  script: string;
+  /** The analyzed profile, for adapters that pick a base voice from it. */
+  profile: VoiceProfile;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that renders a voice description as speech, so a description
+ * can be heard (and re-analyzed) without leaving the app.
+ */
+export interface TtsProvider {
+  id: TtsProviderId;
+  model: string;
+  /** Resolves to playable audio, typically audio/wav. */
+  synthesize: (request: SynthesisRequest) => Promise<Blob>;
+}
+
+/**
+ * Returns a user-facing reason why no TTS provider is available, or an empty
+ * string if previews can run.
+ */
+export const getTtsConfigError = (settings: ProviderSettings, geminiApiKey: string): string => {
+  if (settings.provider === 'mock' || geminiApiKey || ANALYSIS_PROXY_URL) return '';
+  return 'Voice previews use Gemini TTS. Add or unlock a Gemini API key (or switch to the offline mock) to enable them.';
+};
+
+/**
+ * Builds the TTS provider that accompanies the analysis provider: the offline
+ * stand-in alongside the mock analyzer, Gemini TTS (through the proxy when one
+ * is configured) otherwise.
+ */
+export const createTtsProvider = (settings: ProviderSettings, geminiApiKey: string): TtsProvider => {
+  if (settings.provider === 'mock') return createMockTtsProvider();
+  return ANALYSIS_PROXY_URL ? createProxyTtsProvider(ANALYSIS_PROXY_URL) : createGeminiTtsProvider(geminiApiKey);
+};
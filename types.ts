@@ -0,0 +1,231 @@
+export type VoiceDimensionKey = 'tone' | 'pitch' | 'pace' | 'articulation' | 'timbre' | 'emotion';
+
+/**
+ * A single analyzed characteristic of a voice.
+ * `scale` places the voice on the dimension's axis (0-10, see VOICE_DIMENSIONS
+ * for what each end means) and `confidence` is the model's own 0-1 estimate.
+ */
+export interface VoiceDimension {
+  label: string;
+  scale: number;
+  confidence: number;
+  notes: string;
+}
+
+/**
+ * The language spoken in a clip and the speaker's accent, as heard by the model.
+ * The confidences are the model's own 0-1 estimates.
+ */
+export interface SpokenLanguage {
+  /** English name of the language, e.g. "Spanish". */
+  name: string;
+  /** BCP 47 tag, e.g. "es-MX"; empty when the model could not tell. */
+  code: string;
+  confidence: number;
+  /** Regional accent or dialect, e.g. "Mexican (Mexico City)"; empty when none is discernible. */
+  accent: string;
+  accentConfidence: number;
+}
+
+/**
+ * The structured result of a voice analysis. `ttsPrompt` is the synthesized
+ * single-paragraph description meant to be pasted into a TTS generator.
+ * `language` is missing from profiles analyzed before it was detected.
+ */
+export interface VoiceProfile {
+  language?: SpokenLanguage;
+  dimensions: Record<VoiceDimensionKey, VoiceDimension>;
+  confidence: number;
+  ttsPrompt: string;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * One file in a batch analysis queue.
+ */
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  profile?: VoiceProfile;
+  error?: string;
+}
+
+/**
+ * A saved analysis in the local history library, including the source audio.
+ * `audio` is null for entries imported from an export file.
+ */
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  fileName: string;
+  audio: Blob | null;
+  durationSeconds: number | null;
+  createdAt: number;
+  providerId: string;
+  model: string;
+  /** Generation parameters the analysis ran with; absent for older entries and the mock. */
+  generation?: GenerationSettings;
+  profile: VoiceProfile;
+  tags: string[];
+}
+
+/**
+ * Measurable properties of a clip computed locally from the decoded audio.
+ * Values are null when they could not be measured (e.g. no voiced frames).
+ */
+export interface AcousticFeatures {
+  durationSeconds: number;
+  f0MeanHz: number | null;
+  f0MinHz: number | null;
+  f0MaxHz: number | null;
+  /** Estimated syllables per second of speech. */
+  speakingRate: number | null;
+  /** Fraction of the clip spent in pauses of 250 ms or longer. */
+  pauseRatio: number;
+  /** Mean loudness of speech frames in dBFS. */
+  rmsDb: number;
+  spectralCentroidHz: number | null;
+}
+
+/**
+ * How one dimension of a candidate voice differs from the reference.
+ * `scaleDelta` is candidate minus reference on the 0-10 scale.
+ */
+export interface DimensionComparison {
+  scaleDelta: number;
+  similarity: number;
+  diverges: boolean;
+  suggestion: string;
+}
+
+export interface VoiceComparison {
+  dimensions: Record<VoiceDimensionKey, DimensionComparison>;
+  /** Overall similarity from 0 (unrelated) to 100 (identical). */
+  similarity: number;
+}
+
+/**
+ * A selected region of an audio clip, in seconds.
+ */
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A stretch of a clip in which one speaker is talking, in seconds.
+ */
+export interface SpeakerSegment {
+  start: number;
+  end: number;
+}
+
+/**
+ * One speaker found by diarizing a multi-speaker clip, with a profile built
+ * from their segments only.
+ */
+export interface SpeakerProfile {
+  /** The model's name for the speaker, e.g. "Speaker 1" or "Interviewer". */
+  label: string;
+  segments: SpeakerSegment[];
+  profile: VoiceProfile;
+}
+
+/**
+ * How a clip is cut into windows for the timeline: equal lengths, or at pauses.
+ */
+export type SegmentationMode = 'fixed' | 'silence';
+
+/**
+ * One window of a time-segmented analysis. `profile` and `features` stay null
+ * while the window is pending, or if it failed or the run was cancelled first.
+ */
+export interface TimelineSegment {
+  start: number;
+  end: number;
+  status: BatchItemStatus | 'cancelled';
+  profile: VoiceProfile | null;
+  features: AcousticFeatures | null;
+  error?: string;
+}
+
+/**
+ * A voice profile with the metadata that travels with it in export files.
+ */
+export interface ExportedProfile {
+  name: string;
+  fileName?: string;
+  createdAt?: number;
+  durationSeconds?: number | null;
+  providerId?: string;
+  model?: string;
+  generation?: GenerationSettings;
+  tags?: string[];
+  profile: VoiceProfile;
+}
+
+/**
+ * A named voice profile kept in the preset library. Built-in presets ship with
+ * the app and are read-only.
+ */
+export interface VoicePreset {
+  id: string;
+  name: string;
+  category: string;
+  tags: string[];
+  notes: string;
+  builtIn: boolean;
+  createdAt: number;
+  updatedAt: number;
+  /** The file or preset the profile came from, if any. */
+  source?: string;
+  profile: VoiceProfile;
+}
+
+export type PromptOutputStyle = 'paragraph' | 'concise' | 'detailed' | 'direction';
+
+/**
+ * Values substituted into a prompt template's `{{placeholders}}`.
+ */
+export interface PromptTemplateVariables {
+  /** Language the labels, notes and TTS prompt are written in. */
+  language: string;
+  /** Upper bound on the TTS prompt length, in characters. */
+  maxLength: number;
+  /** The characteristics the TTS prompt should describe. All are still scored. */
+  dimensions: VoiceDimensionKey[];
+  outputStyle: PromptOutputStyle;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  variables: PromptTemplateVariables;
+  createdAt: number;
+  note: string;
+}
+
+/**
+ * A named analysis prompt with its full edit history. The last version is current.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  versions: PromptTemplateVersion[];
+}
+
+/**
+ * Model generation parameters. A null value leaves the model's default in place.
+ */
+export interface GenerationSettings {
+  /** The Gemini model; OpenAI-compatible endpoints use their own model setting. */
+  model: string;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  /** Gemini thinking token budget; -1 lets the model decide, 0 disables thinking where allowed. */
+  thinkingBudget: number | null;
+  seed: number | null;
+}
@@ -0,0 +1,256 @@
+import type { AcousticFeatures, TrimRange } from '../types';
+
+// All analysis runs on mono audio at this rate; it covers the speech band and keeps the DSP cheap.
+const ANALYSIS_SAMPLE_RATE = 16000;
+const FRAME_SIZE = 512; // 32 ms
+const HOP_SIZE = 160; // 10 ms
+const MIN_F0_HZ = 60;
+const MAX_F0_HZ = 400;
+const YIN_THRESHOLD = 0.15;
+const MIN_PAUSE_SECONDS = 0.25;
+
+/**
+ * Decodes an audio file and renders it as a mono buffer at the given sample rate.
+ * decodeAudioData resamples to the context's rate, and rendering through a
+ * single-channel OfflineAudioContext downmixes all channels.
+ * @param {Blob} blob The encoded audio.
+ * @param {number} sampleRate The target sample rate.
+ * @returns {Promise<AudioBuffer>} A mono AudioBuffer.
+ */
+export const decodeToMono = async (blob: Blob, sampleRate: number = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(arrayBuffer);
+  const offline = new OfflineAudioContext(1, decoded.length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+const toDb = (rms: number): number => 20 * Math.log10(Math.max(rms, 1e-10));
+
+const frameRms = (samples: Float32Array, start: number): number => {
+  let sum = 0;
+  for (let i = start; i < start + FRAME_SIZE; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / FRAME_SIZE);
+};
+
+/**
+ * Estimates the fundamental frequency of a frame with the YIN algorithm
+ * (de Cheveigné & Kawahara, 2002). Returns null for unvoiced frames.
+ */
+const estimateF0 = (samples: Float32Array, start: number, sampleRate: number): number | null => {
+  const minLag = Math.floor(sampleRate / MAX_F0_HZ);
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_F0_HZ), FRAME_SIZE / 2);
+  const integrationWindow = FRAME_SIZE - maxLag;
+
+  const difference = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < integrationWindow; i++) {
+      const delta = samples[start + i] - samples[start + i + lag];
+      sum += delta * delta;
+    }
+    difference[lag] = sum;
+  }
+
+  // Cumulative mean normalized difference, then the first dip below the threshold.
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag];
+    const normalized = runningSum > 0 ? (difference[lag] * lag) / runningSum : 1;
+    difference[lag] = normalized;
+  }
+  for (let lag = minLag; lag < maxLag; lag++) {
+    if (difference[lag] < YIN_THRESHOLD) {
+      while (lag + 1 < maxLag && difference[lag + 1] < difference[lag]) lag++;
+      // Parabolic interpolation around the minimum for sub-sample accuracy.
+      const a = difference[lag - 1];
+      const b = difference[lag];
+      const c = difference[lag + 1];
+      const denominator = a + c - 2 * b;
+      const refinedLag = denominator !== 0 ? lag + (a - c) / (2 * denominator) : lag;
+      return sampleRate / refinedLag;
+    }
+  }
+  return null;
+};
+
+/**
+ * In-place iterative radix-2 FFT. `real` and `imag` must have a power-of-two length.
+ */
+const fft = (real: Float32Array, imag: Float32Array): void => {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+};
+
+const hannWindow = Float32Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+
+const spectralCentroid = (samples: Float32Array, start: number, sampleRate: number): number => {
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    real[i] = samples[start + i] * hannWindow[i];
+  }
+  fft(real, imag);
+  let weighted = 0;
+  let total = 0;
+  for (let bin = 1; bin < FRAME_SIZE / 2; bin++) {
+    const magnitude = Math.hypot(real[bin], imag[bin]);
+    weighted += magnitude * ((bin * sampleRate) / FRAME_SIZE);
+    total += magnitude;
+  }
+  return total > 0 ? weighted / total : 0;
+};
+
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))))];
+
+/**
+ * Counts syllable nuclei as local peaks of the smoothed energy envelope that
+ * stand out from their surroundings, restricted to speech frames.
+ */
+const countSyllables = (frameDb: number[], isSpeech: boolean[]): number => {
+  const smoothed = frameDb.map((_, i) => {
+    const from = Math.max(0, i - 2);
+    const to = Math.min(frameDb.length, i + 3);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += frameDb[j];
+    return sum / (to - from);
+  });
+  let count = 0;
+  let lastPeak = -Infinity;
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    if (!isSpeech[i] || smoothed[i] < smoothed[i - 1] || smoothed[i] < smoothed[i + 1]) continue;
+    // Require at least 2 dB of prominence over the surrounding 100 ms and 100 ms between peaks.
+    const neighbourhood = smoothed.slice(Math.max(0, i - 10), i + 11);
+    if (smoothed[i] - Math.min(...neighbourhood) < 2 || i - lastPeak < 10) continue;
+    count++;
+    lastPeak = i;
+  }
+  return count;
+};
+
+/**
+ * Measures the loudness of every 10 ms hop and flags the ones that are speech.
+ */
+const classifyFrames = (samples: Float32Array): { frameDb: number[]; isSpeech: boolean[] } => {
+  const frameDb: number[] = [];
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    frameDb.push(toDb(frameRms(samples, start)));
+  }
+  // Speech is anything within 30 dB of the loudest frames, but never below -50 dBFS.
+  const sortedDb = [...frameDb].sort((a, b) => a - b);
+  const speechThreshold = Math.max(-50, percentile(sortedDb, 0.95) - 30);
+  return { frameDb, isSpeech: frameDb.map((db) => db >= speechThreshold) };
+};
+
+/**
+ * Finds runs of non-speech frames long enough to be heard as a break,
+ * as [first frame, frame after the last] pairs.
+ */
+const findPauseRuns = (isSpeech: boolean[], sampleRate: number): [number, number][] => {
+  const minPauseFrames = Math.ceil((MIN_PAUSE_SECONDS * sampleRate) / HOP_SIZE);
+  const runs: [number, number][] = [];
+  let run = 0;
+  [...isSpeech, true].forEach((speech, index) => {
+    if (!speech) {
+      run++;
+      return;
+    }
+    if (run >= minPauseFrames) runs.push([index - run, index]);
+    run = 0;
+  });
+  return runs;
+};
+
+/**
+ * Finds the pauses in a mono buffer, such as one from decodeToMono.
+ * @param {AudioBuffer} buffer The decoded audio.
+ * @returns {TrimRange[]} Pauses of at least MIN_PAUSE_SECONDS, in seconds, in order.
+ */
+export const findPauses = (buffer: AudioBuffer): TrimRange[] => {
+  const { isSpeech } = classifyFrames(buffer.getChannelData(0));
+  const secondsPerFrame = HOP_SIZE / buffer.sampleRate;
+  return findPauseRuns(isSpeech, buffer.sampleRate).map(([start, end]) => ({ start: start * secondsPerFrame, end: end * secondsPerFrame }));
+};
+
+/**
+ * Decodes an audio file and measures pitch, rate, pausing, loudness and brightness.
+ * @param {Blob} blob The encoded audio file.
+ * @returns {Promise<AcousticFeatures>} The measured features.
+ */
+export const extractAcousticFeatures = async (blob: Blob): Promise<AcousticFeatures> => {
+  const buffer = await decodeToMono(blob);
+  const samples = buffer.getChannelData(0);
+  const sampleRate = buffer.sampleRate;
+  const durationSeconds = buffer.duration;
+
+  const { frameDb, isSpeech } = classifyFrames(samples);
+  if (frameDb.length === 0) {
+    throw new Error('The audio clip is too short to measure.');
+  }
+
+  const f0Values: number[] = [];
+  const centroids: number[] = [];
+  let speechSumSquares = 0;
+  let speechFrames = 0;
+  isSpeech.forEach((speech, index) => {
+    if (!speech) return;
+    speechSumSquares += Math.pow(10, frameDb[index] / 10);
+    speechFrames++;
+    // Pitch and spectrum change slowly; every other frame (20 ms) is plenty and halves the cost.
+    if (index % 2 === 0) {
+      const start = index * HOP_SIZE;
+      const f0 = estimateF0(samples, start, sampleRate);
+      if (f0 !== null) f0Values.push(f0);
+      centroids.push(spectralCentroid(samples, start, sampleRate));
+    }
+  });
+
+  const pauseFrames = findPauseRuns(isSpeech, sampleRate).reduce((sum, [start, end]) => sum + end - start, 0);
+
+  const sortedF0 = [...f0Values].sort((a, b) => a - b);
+  const speakingSeconds = (speechFrames * HOP_SIZE) / sampleRate;
+  const syllables = countSyllables(frameDb, isSpeech);
+
+  return {
+    durationSeconds,
+    f0MeanHz: f0Values.length ? f0Values.reduce((sum, value) => sum + value, 0) / f0Values.length : null,
+    // 5th-95th percentiles, so octave errors on a few frames don't dominate the range.
+    f0MinHz: sortedF0.length ? percentile(sortedF0, 0.05) : null,
+    f0MaxHz: sortedF0.length ? percentile(sortedF0, 0.95) : null,
+    speakingRate: speakingSeconds > 0 ? syllables / speakingSeconds : null,
+    pauseRatio: pauseFrames / frameDb.length,
+    rmsDb: speechFrames > 0 ? 10 * Math.log10(speechSumSquares / speechFrames) : toDb(0),
+    spectralCentroidHz: centroids.length ? centroids.reduce((sum, value) => sum + value, 0) / centroids.length : null,
+  };
+};
@@ -0,0 +1,67 @@
+import type { SegmentationMode, TrimRange } from '../types';
+import { decodeToMono, findPauses } from './acousticFeatures';
+import { encodeWav } from './wavEncoder';
+
+// Silence-based windows are cut at the first pause after this length...
+const MIN_SILENCE_WINDOW_SECONDS = 5;
+// ...and forced to end here if the speaker never pauses.
+const MAX_SILENCE_WINDOW_SECONDS = 20;
+
+/**
+ * Cuts a clip into equal windows. A last window shorter than half the length
+ * is merged into the one before, so no window is too short to judge.
+ * @param {number} duration The clip length in seconds.
+ * @param {number} windowSeconds The window length in seconds.
+ */
+export const splitFixed = (duration: number, windowSeconds: number): TrimRange[] => {
+  const windows: TrimRange[] = [];
+  for (let start = 0; start < duration; start += windowSeconds) {
+    windows.push({ start, end: Math.min(duration, start + windowSeconds) });
+  }
+  const last = windows[windows.length - 1];
+  if (windows.length > 1 && last.end - last.start < windowSeconds / 2) {
+    windows.pop();
+    windows[windows.length - 1].end = duration;
+  }
+  return windows;
+};
+
+/**
+ * Cuts a clip in the middle of pauses, so windows follow the phrasing. Where
+ * the speaker never pauses the clip is cut by length, without a short last window.
+ * @param {number} duration The clip length in seconds.
+ * @param {TrimRange[]} pauses The pauses in the clip, in order.
+ */
+export const splitOnSilence = (duration: number, pauses: TrimRange[]): TrimRange[] => {
+  const cuts = pauses.map(({ start, end }) => (start + end) / 2);
+  const windows: TrimRange[] = [];
+  let start = 0;
+  for (;;) {
+    const remaining = duration - start;
+    // A forced cut halves the rest when a full window would leave only a sliver behind (41 s: 20, 10.5, 10.5, not 20, 20, 1).
+    const cut = cuts.find((time) => time - start >= MIN_SILENCE_WINDOW_SECONDS && time - start <= MAX_SILENCE_WINDOW_SECONDS && duration - time >= MIN_SILENCE_WINDOW_SECONDS)
+      ?? (remaining > MAX_SILENCE_WINDOW_SECONDS ? start + Math.min(MAX_SILENCE_WINDOW_SECONDS, remaining / 2) : undefined);
+    if (cut === undefined) break;
+    windows.push({ start, end: cut });
+    start = cut;
+  }
+  windows.push({ start, end: duration });
+  return windows;
+};
+
+/**
+ * Splits an audio file into windows and encodes each as a mono WAV file.
+ * @param {File} file The clip to split.
+ * @param {SegmentationMode} mode Fixed-length windows, or windows cut at pauses.
+ * @param {number} windowSeconds The window length in fixed mode.
+ * @returns {Promise<{ range: TrimRange; file: File }[]>} The windows in order.
+ */
+export const splitAudioFile = async (file: File, mode: SegmentationMode, windowSeconds: number): Promise<{ range: TrimRange; file: File }[]> => {
+  const buffer = await decodeToMono(file);
+  const ranges = mode === 'fixed' ? splitFixed(buffer.duration, windowSeconds) : splitOnSilence(buffer.duration, findPauses(buffer));
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return ranges.map((range, index) => ({
+    range,
+    file: new File([encodeWav(buffer, range.start, range.end)], `${baseName} (part ${index + 1}).wav`, { type: 'audio/wav' }),
+  }));
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { VoiceProfile } from '../types';
+import { profilesToCsv } from './exportUtils';
+import { VOICE_DIMENSIONS } from './voiceProfile';
+
+const profileWithPrompt = (ttsPrompt: string, label = 'Warm'): VoiceProfile => ({
+  dimensions: Object.fromEntries(
+    VOICE_DIMENSIONS.map(({ key }) => [key, { label, scale: 5, confidence: 0.8, notes: '' }])
+  ) as VoiceProfile['dimensions'],
+  confidence: 0.8,
+  ttsPrompt,
+});
+
+const cellsOf = (csv: string): string[] => csv.split('\r\n')[1].split(',');
+
+describe('profilesToCsv', () => {
+  it('prefixes text cells that a spreadsheet would run as a formula', () => {
+    for (const payload of ['=1+1', '+1+1', '-2+3', '@SUM(A1)', '\tcmd']) {
+      expect(cellsOf(profilesToCsv([{ name: payload, profile: profileWithPrompt('Calm.') }]))[0]).toBe(`'${payload}`);
+    }
+    expect(cellsOf(profilesToCsv([{ name: '\rcmd', profile: profileWithPrompt('Calm.') }]))[0]).toBe(`"'\rcmd"`);
+  });
+
+  it('prefixes formulas in model output and quotes them when needed', () => {
+    const csv = profilesToCsv([{ name: 'clip', profile: profileWithPrompt('=cmd|" /C calc"!A0', '@label') }]);
+    expect(csv).toContain(`"'=cmd|"" /C calc""!A0"`);
+    expect(cellsOf(csv)).toContain("'@label");
+  });
+
+  it('leaves numbers and ordinary text unchanged', () => {
+    const csv = profilesToCsv([{ name: 'Narrator - take 2', generation: { model: 'm', temperature: -0, maxOutputTokens: 0, thinkingBudget: -1, seed: null }, profile: profileWithPrompt('A calm voice.') }]);
+    const cells = cellsOf(csv);
+    expect(cells[0]).toBe('Narrator - take 2');
+    expect(cells).toContain('-1');
+    expect(cells).toContain('A calm voice.');
+  });
+});
@@ -0,0 +1,209 @@
+import type { ExportedProfile, GenerationSettings, VoiceProfile } from '../types';
+import { describeGenerationSettings } from '../services/generationSettings';
+import { VOICE_DIMENSIONS, describeSpokenLanguage, parseVoiceProfile } from './voiceProfile';
+
+const EXPORT_FORMAT = 'voice-tone-analyzer/profiles';
+const EXPORT_VERSION = 1;
+
+/**
+ * Triggers a browser download of the given text content.
+ * @param {string} fileName The suggested file name.
+ * @param {string} content The file contents.
+ * @param {string} mimeType The MIME type of the file.
+ */
+export const downloadTextFile = (fileName: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive this task.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Spreadsheets run a text cell starting with one of these as a formula.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a value for CSV output per RFC 4180. Text that a spreadsheet would
+ * read as a formula is prefixed with an apostrophe so it stays text.
+ */
+const csvCell = (value: string | number): string => {
+  const text = typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes named profiles as CSV with one row per profile and label/scale/confidence
+ * columns for every dimension. Rows without a profile (e.g. failed analyses) keep
+ * their name and error and leave the profile columns empty.
+ */
+export const profilesToCsv = (rows: (Omit<ExportedProfile, 'profile'> & { profile?: VoiceProfile; error?: string })[]): string => {
+  const header = [
+    'name',
+    'file_name',
+    'created_at',
+    'model',
+    'temperature',
+    'max_output_tokens',
+    'thinking_budget',
+    'seed',
+    'language',
+    'language_code',
+    'language_confidence',
+    'accent',
+    'accent_confidence',
+    ...VOICE_DIMENSIONS.flatMap(({ key }) => [`${key}_label`, `${key}_scale`, `${key}_confidence`]),
+    'confidence',
+    'tts_prompt',
+    'error',
+  ];
+  const lines = rows.map(({ name, fileName, createdAt, model, generation, profile, error }) => [
+    name,
+    fileName ?? '',
+    createdAt ? new Date(createdAt).toISOString() : '',
+    model ?? '',
+    generation?.temperature ?? '',
+    generation?.maxOutputTokens ?? '',
+    generation?.thinkingBudget ?? '',
+    generation?.seed ?? '',
+    profile?.language?.name ?? '',
+    profile?.language?.code ?? '',
+    profile?.language?.confidence ?? '',
+    profile?.language?.accent ?? '',
+    profile?.language?.accent ? profile.language.accentConfidence : '',
+    ...VOICE_DIMENSIONS.flatMap(({ key }) => {
+      const dimension = profile?.dimensions[key];
+      return dimension ? [dimension.label, dimension.scale, dimension.confidence] : ['', '', ''];
+    }),
+    profile?.confidence ?? '',
+    profile?.ttsPrompt ?? '',
+    error ?? '',
+  ]);
+  return [header, ...lines].map((cells) => cells.map(csvCell).join(',')).join('\r\n');
+};
+
+/**
+ * Serializes profiles as a versioned JSON document that can be imported again.
+ */
+export const profilesToJson = (profiles: ExportedProfile[]): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), profiles }, null, 2);
+
+const markdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const profileToMarkdown = ({ name, fileName, createdAt, durationSeconds, model, generation, tags, profile }: ExportedProfile, headingLevel: number): string => {
+  const heading = '#'.repeat(headingLevel);
+  const details = [
+    fileName && `Source: ${fileName}`,
+    durationSeconds != null && `Duration: ${durationSeconds.toFixed(1)} s`,
+    createdAt && `Analyzed: ${new Date(createdAt).toLocaleString()}`,
+    model && `Model: ${model}${generation ? ` (${describeGenerationSettings(generation)})` : ''}`,
+    profile.language && `Language: ${describeSpokenLanguage(profile.language)}`,
+    `Confidence: ${Math.round(profile.confidence * 100)}%`,
+  ].filter(Boolean);
+  const notes = VOICE_DIMENSIONS.filter(({ key }) => profile.dimensions[key].notes);
+
+  return [
+    `${heading} ${name}`,
+    '',
+    `_${details.join(' · ')}_`,
+    ...(tags && tags.length > 0 ? ['', `Tags: ${tags.map((tag) => `\`${tag}\``).join(', ')}`] : []),
+    '',
+    `${heading}# Voice Description`,
+    '',
+    `> ${profile.ttsPrompt}`,
+    '',
+    `${heading}# Characteristics`,
+    '',
+    '| Dimension | Description | Scale (0-10) | Confidence |',
+    '| --- | --- | --- | --- |',
+    ...VOICE_DIMENSIONS.map(({ key, title }) => {
+      const dimension = profile.dimensions[key];
+      return `| ${title} | ${markdownCell(dimension.label)} | ${dimension.scale} | ${Math.round(dimension.confidence * 100)}% |`;
+    }),
+    ...(notes.length > 0
+      ? ['', `${heading}# Analyst Notes`, '', ...notes.map(({ key, title }) => `- **${title}:** ${profile.dimensions[key].notes}`)]
+      : []),
+  ].join('\n');
+};
+
+/**
+ * Renders profiles as a Markdown casting brief. A single profile becomes a
+ * standalone document; several are collected under one title.
+ */
+export const profilesToMarkdown = (profiles: ExportedProfile[]): string => {
+  if (profiles.length === 1) {
+    return `${profileToMarkdown(profiles[0], 1)}\n`;
+  }
+  return [
+    '# Voice Profiles',
+    '',
+    profiles.map((profile) => profileToMarkdown(profile, 2)).join('\n\n---\n\n'),
+    '',
+  ].join('\n');
+};
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+const optionalNumber = (value: unknown): number | undefined => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const parseGeneration = (value: unknown): GenerationSettings | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  return {
+    model: optionalString(raw.model) ?? '',
+    temperature: optionalNumber(raw.temperature) ?? null,
+    maxOutputTokens: optionalNumber(raw.maxOutputTokens) ?? null,
+    thinkingBudget: optionalNumber(raw.thinkingBudget) ?? null,
+    seed: optionalNumber(raw.seed) ?? null,
+  };
+};
+
+/**
+ * Parses a JSON export file back into profiles, validating each one.
+ * Accepts the export document format as well as a bare array of profiles.
+ * @param {string} text The file contents.
+ * @returns {ExportedProfile[]} The imported profiles.
+ */
+export const parseProfilesJson = (text: string): ExportedProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(data) ? data : (data as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file does not contain any voice profiles.');
+  }
+  if (!Array.isArray(data) && (data as { format?: unknown }).format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a Voice Tone Analyzer export.');
+  }
+
+  return entries.map((entry, index) => {
+    const raw = (entry ?? {}) as Record<string, unknown>;
+    let profile: VoiceProfile;
+    try {
+      profile = parseVoiceProfile(raw.profile);
+    } catch (err) {
+      throw new Error(`Profile ${index + 1}: ${err instanceof Error ? err.message : 'invalid profile.'}`);
+    }
+    return {
+      name: optionalString(raw.name)?.trim() || `Imported profile ${index + 1}`,
+      fileName: optionalString(raw.fileName),
+      createdAt: optionalNumber(raw.createdAt),
+      durationSeconds: optionalNumber(raw.durationSeconds) ?? null,
+      providerId: optionalString(raw.providerId),
+      model: optionalString(raw.model),
+      generation: parseGeneration(raw.generation),
+      tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      profile,
+    };
+  });
+};
+
+/**
+ * Builds a file-system-safe base name from a profile name.
+ */
+export const exportFileName = (name: string): string =>
+  name.trim().replace(/[^a-z0-9-_ ]+/gi, '').replace(/\s+/g, '-').toLowerCase() || 'voice-profile';
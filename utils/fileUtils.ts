@@ -12,3 +12,24 @@ export function fileToBase64(file: File): Promise<{ base64: string; mimeType: st
     reader.onerror = (error) => reject(error);
   });
 }
+
+
+/**
+ * Reads the duration of an audio blob from its metadata.
+ * Resolves with null when the browser cannot determine it (e.g. some
+ * MediaRecorder WebM output reports an infinite duration).
+ */
+export function getAudioDuration(blob: Blob): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+}
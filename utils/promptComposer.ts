@@ -0,0 +1,58 @@
+import type { VoiceDimension, VoiceDimensionKey, VoiceProfile } from '../types';
+import { VOICE_DIMENSIONS } from './voiceProfile';
+
+/**
+ * Labels for five bands of each dimension's 0-10 scale, from low to high.
+ * A slider move that lands in another band swaps the label for that band's.
+ */
+const SCALE_LABELS: Record<VoiceDimensionKey, string[]> = {
+  tone: ['Cool and reserved', 'Composed', 'Even and neutral', 'Warm', 'Very warm and engaging'],
+  pitch: ['Very low-pitched', 'Low-pitched', 'Medium-pitched', 'High-pitched', 'Very high-pitched'],
+  pace: ['Very slow', 'Slow and deliberate', 'Moderate', 'Brisk', 'Very fast'],
+  articulation: ['Soft and slurred', 'Relaxed', 'Clear', 'Crisp', 'Very crisp and precise'],
+  timbre: ['Dark and rich', 'Full and mellow', 'Balanced', 'Bright', 'Very bright and thin'],
+  emotion: ['Subdued', 'Restrained', 'Moderately expressive', 'Expressive', 'Intense'],
+};
+
+// Common directions beyond the scale labels, offered as suggestions in the editor.
+const EXTRA_LABELS: Partial<Record<VoiceDimensionKey, string[]>> = {
+  tone: ['Authoritative', 'Friendly', 'Playful', 'Calm and reassuring', 'Serious', 'Confident'],
+  emotion: ['Cheerful', 'Sincere', 'Excited', 'Melancholic'],
+};
+
+const scaleBand = (scale: number): number => Math.min(4, Math.max(0, Math.round(scale / 2.5)));
+
+/**
+ * Returns the stock label for a scale value, e.g. "Low-pitched" for pitch 2.
+ */
+export const labelForScale = (key: VoiceDimensionKey, scale: number): string => SCALE_LABELS[key][scaleBand(scale)];
+
+/**
+ * Whether two scale values fall in the same band, so a label written for one still fits the other.
+ */
+export const isSameScaleBand = (a: number, b: number): boolean => scaleBand(a) === scaleBand(b);
+
+/**
+ * Label suggestions for a dimension: the stock scale labels plus common alternatives.
+ */
+export const labelSuggestions = (key: VoiceDimensionKey): string[] => [...SCALE_LABELS[key], ...(EXTRA_LABELS[key] ?? [])];
+
+const asSentence = (text: string): string => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+/**
+ * Writes a TTS prompt from the dimension labels alone, one short sentence per
+ * dimension. Instant and deterministic, but anything the analyzed prompt said
+ * beyond the six dimensions (gender, accent, habits) is not carried over.
+ * @param {Record<VoiceDimensionKey, VoiceDimension>} dimensions The characteristics to describe.
+ * @returns {string} The prompt.
+ */
+export const composeTtsPrompt = (dimensions: Record<VoiceDimensionKey, VoiceDimension>): string =>
+  VOICE_DIMENSIONS.map(({ key, title }) => asSentence(`${title}: ${dimensions[key].label.trim()}`)).join(' ');
+
+/**
+ * Lists the dimensions whose label or scale differs between two profiles.
+ */
+export const changedDimensions = (before: VoiceProfile['dimensions'], after: VoiceProfile['dimensions']): VoiceDimensionKey[] =>
+  VOICE_DIMENSIONS
+    .filter(({ key }) => before[key].label !== after[key].label || before[key].scale !== after[key].scale)
+    .map(({ key }) => key);
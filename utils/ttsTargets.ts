@@ -0,0 +1,350 @@
+import type { AcousticFeatures, VoiceProfile } from '../types';
+
+export type TtsTargetId = 'gemini' | 'elevenlabs' | 'openai' | 'ssml' | 'azure' | 'google';
+
+/**
+ * A TTS engine the generated description can be shaped for. `maxLength` is the
+ * engine's input limit, measured in `lengthUnit`.
+ */
+export interface TtsTarget {
+  id: TtsTargetId;
+  label: string;
+  description: string;
+  url: string;
+  linkLabel: string;
+  maxLength: number;
+  lengthUnit: 'characters' | 'bytes';
+  /** Whether the output speaks a sample text rather than describing the voice. */
+  usesSampleText: boolean;
+}
+
+export const TTS_TARGETS: TtsTarget[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini / AI Studio',
+    description: 'A natural-language style prompt for Gemini speech generation.',
+    url: 'https://aistudio.google.com/generate-speech',
+    linkLabel: 'Create TTS on AI Studio',
+    maxLength: 4000,
+    lengthUnit: 'characters',
+    usesSampleText: false,
+  },
+  {
+    id: 'elevenlabs',
+    label: 'ElevenLabs',
+    description: 'A voice design description (20-1000 characters).',
+    url: 'https://elevenlabs.io/app/voice-lab',
+    linkLabel: 'Design a voice on ElevenLabs',
+    maxLength: 1000,
+    lengthUnit: 'characters',
+    usesSampleText: false,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI TTS',
+    description: 'Structured voice instructions for gpt-4o-mini-tts.',
+    url: 'https://www.openai.fm/',
+    linkLabel: 'Try it on OpenAI.fm',
+    maxLength: 4096,
+    lengthUnit: 'characters',
+    usesSampleText: false,
+  },
+  {
+    id: 'ssml',
+    label: 'SSML',
+    description: 'Standard SSML with <prosody> rate, pitch and volume.',
+    url: 'https://www.w3.org/TR/speech-synthesis11/#S3.2.4',
+    linkLabel: 'SSML prosody reference',
+    maxLength: 5000,
+    lengthUnit: 'bytes',
+    usesSampleText: true,
+  },
+  {
+    id: 'azure',
+    label: 'Azure Speech',
+    description: 'SSML with a speaking style (mstts:express-as) and prosody.',
+    url: 'https://speech.microsoft.com/portal/audiocontentcreation',
+    linkLabel: 'Open Azure Speech Studio',
+    maxLength: 64000,
+    lengthUnit: 'bytes',
+    usesSampleText: true,
+  },
+  {
+    id: 'google',
+    label: 'Google Cloud TTS',
+    description: 'A text:synthesize request body with audioConfig parameters.',
+    url: 'https://cloud.google.com/text-to-speech/docs/reference/rest/v1/text/synthesize',
+    linkLabel: 'Google Cloud TTS API reference',
+    maxLength: 5000,
+    lengthUnit: 'bytes',
+    usesSampleText: true,
+  },
+];
+
+/**
+ * Engine-ready output. `length` is measured the way the engine's limit is,
+ * over the part the limit applies to.
+ */
+export interface TtsOutput {
+  text: string;
+  truncated: boolean;
+  length: number;
+}
+
+export const DEFAULT_TTS_TARGET: TtsTargetId = 'gemini';
+
+export const DEFAULT_SAMPLE_TEXT = 'Hello! Thanks for stopping by. Let me walk you through everything you need to know.';
+
+// Conversational English averages roughly four syllables per second.
+const TYPICAL_SYLLABLES_PER_SECOND = 4;
+// Used when the profile has no detected language, or one we cannot map to a voice.
+const DEFAULT_LOCALE = 'en-US';
+// A neutral voice per locale for Azure. Jenny supports every style chosen below;
+// other voices read a style they lack in their default neutral style.
+const AZURE_VOICES: Record<string, string> = {
+  'en-US': 'en-US-JennyNeural',
+  'en-GB': 'en-GB-SoniaNeural',
+  'en-AU': 'en-AU-NatashaNeural',
+  'en-IN': 'en-IN-NeerjaNeural',
+  'es-ES': 'es-ES-ElviraNeural',
+  'es-MX': 'es-MX-DaliaNeural',
+  'fr-FR': 'fr-FR-DeniseNeural',
+  'fr-CA': 'fr-CA-SylvieNeural',
+  'de-DE': 'de-DE-KatjaNeural',
+  'it-IT': 'it-IT-ElsaNeural',
+  'pt-BR': 'pt-BR-FranciscaNeural',
+  'pt-PT': 'pt-PT-RaquelNeural',
+  'nl-NL': 'nl-NL-ColetteNeural',
+  'pl-PL': 'pl-PL-ZofiaNeural',
+  'sv-SE': 'sv-SE-SofieNeural',
+  'ru-RU': 'ru-RU-SvetlanaNeural',
+  'tr-TR': 'tr-TR-EmelNeural',
+  'ar-SA': 'ar-SA-ZariyahNeural',
+  'hi-IN': 'hi-IN-SwaraNeural',
+  'ja-JP': 'ja-JP-NanamiNeural',
+  'ko-KR': 'ko-KR-SunHiNeural',
+  'zh-CN': 'zh-CN-XiaoxiaoNeural',
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const byteLength = (text: string): number => new TextEncoder().encode(text).length;
+
+const measureLength = (text: string, unit: TtsTarget['lengthUnit']): number =>
+  unit === 'bytes' ? byteLength(text) : text.length;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * The locale to synthesize in, from the detected language code. A bare
+ * language (e.g. "es") gets the region of the first voice we have for it.
+ */
+const localeFor = (profile: VoiceProfile): string => {
+  const code = profile.language?.code.trim() ?? '';
+  if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(code)) return DEFAULT_LOCALE;
+  const [language, ...subtags] = code.split('-');
+  const locale = [language.toLowerCase(), ...subtags.map((subtag) => (subtag.length === 2 ? subtag.toUpperCase() : subtag))].join('-');
+  if (subtags.length > 0) return locale;
+  return Object.keys(AZURE_VOICES).find((candidate) => candidate.startsWith(`${locale}-`)) ?? locale;
+};
+
+/**
+ * An Azure voice for the locale: its own, another region's for the same
+ * language, or the default. The SSML takes the voice's locale so the two agree.
+ */
+const azureVoiceFor = (locale: string): { locale: string; voice: string } => {
+  const match = AZURE_VOICES[locale]
+    ? locale
+    : Object.keys(AZURE_VOICES).find((candidate) => candidate.split('-')[0] === locale.split('-')[0]) ?? DEFAULT_LOCALE;
+  return { locale: match, voice: AZURE_VOICES[match] };
+};
+
+const signed = (value: number, unit: string): string => `${value >= 0 ? '+' : ''}${value}${unit}`;
+
+/**
+ * Prosody settings relative to an engine's default voice. Speaking rate comes
+ * from the local measurement when available, otherwise from the pace scale.
+ */
+interface Prosody {
+  /** Multiplier on the default rate (1 = unchanged). */
+  rate: number;
+  /** Relative pitch shift in semitones. */
+  pitchSemitones: number;
+  volumeDb: number;
+}
+
+const prosodyFor = (profile: VoiceProfile, features: AcousticFeatures | null): Prosody => {
+  const { pace, pitch, emotion } = profile.dimensions;
+  const measuredRate = features?.speakingRate ? features.speakingRate / TYPICAL_SYLLABLES_PER_SECOND : null;
+  return {
+    rate: Math.round(clamp(measuredRate ?? 1 + (pace.scale - 5) * 0.08, 0.5, 2) * 100) / 100,
+    pitchSemitones: Math.round((pitch.scale - 5) * 1.5),
+    volumeDb: Math.round((emotion.scale - 5) * 0.8),
+  };
+};
+
+// Keyword matches on the tone and emotion labels, checked in order.
+const AZURE_STYLE_KEYWORDS: [RegExp, string][] = [
+  [/whisper/i, 'whispering'],
+  [/angry|furious|irritat/i, 'angry'],
+  [/sad|melanchol|somber|sombre/i, 'sad'],
+  [/excit|energetic|enthusias/i, 'excited'],
+  [/cheer|upbeat|joyful|bright/i, 'cheerful'],
+  [/hope|optimis/i, 'hopeful'],
+  [/cold|unfriendly|curt/i, 'unfriendly'],
+  [/authoritative|professional|formal|news/i, 'newscast'],
+  [/warm|friendly|kind/i, 'friendly'],
+];
+
+const azureStyleFor = (profile: VoiceProfile): string | null => {
+  const { tone, emotion } = profile.dimensions;
+  const labels = `${tone.label} ${emotion.label}`;
+  const match = AZURE_STYLE_KEYWORDS.find(([pattern]) => pattern.test(labels));
+  if (match) return match[1];
+  if (tone.scale >= 7) return emotion.scale >= 7 ? 'excited' : 'friendly';
+  return null;
+};
+
+/**
+ * Cuts text to fit a limit, preferring to end on a sentence, then on a word.
+ */
+const truncateText = (text: string, maxLength: number, unit: TtsTarget['lengthUnit']): string => {
+  if (measureLength(text, unit) <= maxLength) return text;
+  let cut = text;
+  while (measureLength(cut, unit) > maxLength) {
+    cut = cut.slice(0, Math.max(0, cut.length - Math.ceil((measureLength(cut, unit) - maxLength) / 2) - 1));
+  }
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '));
+  if (sentenceEnd > cut.length / 2) return cut.slice(0, sentenceEnd + 1);
+  const wordEnd = cut.lastIndexOf(' ');
+  return wordEnd > 0 ? cut.slice(0, wordEnd) : cut;
+};
+
+const elevenLabsDescription = (profile: VoiceProfile): string => {
+  const { tone, pitch, pace, timbre, emotion } = profile.dimensions;
+  const summary = `A ${pitch.label.toLowerCase()} voice with a ${tone.label.toLowerCase()} tone, ${timbre.label.toLowerCase()} timbre and ${pace.label.toLowerCase()} delivery, sounding ${emotion.label.toLowerCase()}.`;
+  return `${profile.ttsPrompt} ${summary} Studio-quality recording.`;
+};
+
+const openAiInstructions = (profile: VoiceProfile): string => {
+  const { tone, pitch, pace, articulation, timbre, emotion } = profile.dimensions;
+  const line = (title: string, label: string, notes: string) => `${title}: ${label}${notes ? `. ${notes}` : '.'}`;
+  return [
+    `Voice: ${profile.ttsPrompt}`,
+    line('Tone', tone.label, tone.notes),
+    line('Pitch', pitch.label, pitch.notes),
+    line('Timbre', timbre.label, timbre.notes),
+    line('Pacing', pace.label, pace.notes),
+    line('Pronunciation', articulation.label, articulation.notes),
+    line('Emotion', emotion.label, emotion.notes),
+  ].join('\n');
+};
+
+const prosodyElement = ({ rate, pitchSemitones, volumeDb }: Prosody, text: string): string =>
+  `<prosody rate="${Math.round(rate * 100)}%" pitch="${signed(pitchSemitones, 'st')}" volume="${signed(volumeDb, 'dB')}">${escapeXml(text)}</prosody>`;
+
+const standardSsml = (prosody: Prosody, locale: string, text: string): string =>
+  [
+    `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${locale}">`,
+    `  ${prosodyElement(prosody, text)}`,
+    '</speak>',
+  ].join('\n');
+
+const azureSsml = (prosody: Prosody, { locale, voice }: { locale: string; voice: string }, style: string | null, styleDegree: number, text: string): string => {
+  const body = prosodyElement(prosody, text);
+  return [
+    `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="${locale}">`,
+    `  <voice name="${voice}">`,
+    style ? `    <mstts:express-as style="${style}" styledegree="${styleDegree}">${body}</mstts:express-as>` : `    ${body}`,
+    '  </voice>',
+    '</speak>',
+  ].join('\n');
+};
+
+const googleSsml = ({ volumeDb }: Prosody, text: string): string =>
+  // Rate and pitch go in audioConfig; Google applies prosody volume on top of volumeGainDb, so only one is set.
+  `<speak>${volumeDb === 0 ? escapeXml(text) : `<prosody volume="${signed(volumeDb, 'dB')}">${escapeXml(text)}</prosody>`}</speak>`;
+
+const googleRequest = (prosody: Prosody, locale: string, ssml: string): string =>
+  JSON.stringify(
+    {
+      input: { ssml },
+      voice: { languageCode: locale },
+      audioConfig: {
+        audioEncoding: 'MP3',
+        speakingRate: clamp(prosody.rate, 0.25, 4),
+        pitch: clamp(prosody.pitchSemitones, -20, 20),
+      },
+    },
+    null,
+    2
+  );
+
+/**
+ * Fits a sample text into SSML built around it, shortening the spoken text
+ * (never the markup) so the document stays valid within the limit.
+ */
+const fitSampleText = (build: (text: string) => string, sampleText: string, target: TtsTarget): TtsOutput => {
+  const full = build(sampleText);
+  if (measureLength(full, target.lengthUnit) <= target.maxLength) {
+    return { text: full, truncated: false, length: measureLength(full, target.lengthUnit) };
+  }
+  const overhead = measureLength(full, target.lengthUnit) - measureLength(escapeXml(sampleText), target.lengthUnit);
+  let fitted = truncateText(sampleText, Math.max(0, target.maxLength - overhead), target.lengthUnit);
+  // Escaping can grow the text, so keep trimming until the document fits.
+  while (fitted && measureLength(build(fitted), target.lengthUnit) > target.maxLength) {
+    fitted = truncateText(fitted, measureLength(fitted, target.lengthUnit) - 1, target.lengthUnit);
+  }
+  const text = build(fitted);
+  return { text, truncated: true, length: measureLength(text, target.lengthUnit) };
+};
+
+export const getTtsTarget = (id: TtsTargetId): TtsTarget =>
+  TTS_TARGETS.find((target) => target.id === id) ?? TTS_TARGETS[0];
+
+/**
+ * Reshapes a voice profile into the input format a TTS engine expects,
+ * enforcing the engine's length limit. SSML targets speak in the profile's
+ * detected language, or US English when there is none.
+ * @param {TtsTargetId} targetId The engine to format for.
+ * @param {VoiceProfile} profile The analyzed voice.
+ * @param {{ features?: AcousticFeatures | null; sampleText?: string }} options
+ *   Local measurements to ground prosody, and the text SSML targets should speak.
+ * @returns {TtsOutput} The formatted output.
+ */
+export const formatForTarget = (
+  targetId: TtsTargetId,
+  profile: VoiceProfile,
+  { features = null, sampleText = DEFAULT_SAMPLE_TEXT }: { features?: AcousticFeatures | null; sampleText?: string } = {}
+): TtsOutput => {
+  const target = getTtsTarget(targetId);
+  const prosody = prosodyFor(profile, features);
+  const spoken = sampleText.trim() || DEFAULT_SAMPLE_TEXT;
+  const locale = localeFor(profile);
+
+  const fitDescription = (text: string) => {
+    const fitted = truncateText(text, target.maxLength, target.lengthUnit);
+    return { text: fitted, truncated: fitted !== text, length: measureLength(fitted, target.lengthUnit) };
+  };
+
+  switch (target.id) {
+    case 'elevenlabs':
+      return fitDescription(elevenLabsDescription(profile));
+    case 'openai':
+      return fitDescription(openAiInstructions(profile));
+    case 'ssml':
+      return fitSampleText((text) => standardSsml(prosody, locale, text), spoken, target);
+    case 'azure': {
+      const styleDegree = Math.round(clamp(0.5 + profile.dimensions.emotion.scale * 0.15, 0.5, 2) * 10) / 10;
+      return fitSampleText((text) => azureSsml(prosody, azureVoiceFor(locale), azureStyleFor(profile), styleDegree, text), spoken, target);
+    }
+    case 'google': {
+      // The 5000-byte limit applies to the SSML input, not the surrounding request.
+      const ssml = fitSampleText((text) => googleSsml(prosody, text), spoken, target);
+      return { ...ssml, text: googleRequest(prosody, locale, ssml.text) };
+    }
+    default:
+      return fitDescription(profile.ttsPrompt);
+  }
+};
@@ -0,0 +1,55 @@
+import type { DimensionComparison, VoiceComparison, VoiceDimension, VoiceDimensionKey, VoiceProfile } from '../types';
+import { VOICE_DIMENSIONS } from './voiceProfile';
+
+// A gap of this many scale points is audible enough to call out.
+const DIVERGENCE_THRESHOLD = 2.5;
+// Scale distance dominates; shared wording in the labels nudges the score.
+const SCALE_WEIGHT = 0.8;
+const LABEL_WEIGHT = 0.2;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'with', 'of', 'very', 'slightly', 'somewhat']);
+
+const labelTokens = (label: string): Set<string> =>
+  new Set(label.toLowerCase().split(/[^a-z]+/).filter((token) => token && !STOP_WORDS.has(token)));
+
+/**
+ * Jaccard overlap of the meaningful words in two labels.
+ */
+const labelSimilarity = (a: string, b: string): number => {
+  const tokensA = labelTokens(a);
+  const tokensB = labelTokens(b);
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+  const shared = [...tokensA].filter((token) => tokensB.has(token)).length;
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+const compareDimension = (key: VoiceDimensionKey, reference: VoiceDimension, candidate: VoiceDimension): DimensionComparison => {
+  const meta = VOICE_DIMENSIONS.find((dimension) => dimension.key === key)!;
+  const scaleDelta = candidate.scale - reference.scale;
+  const similarity = SCALE_WEIGHT * (1 - Math.abs(scaleDelta) / 10) + LABEL_WEIGHT * labelSimilarity(reference.label, candidate.label);
+  const diverges = Math.abs(scaleDelta) >= DIVERGENCE_THRESHOLD;
+  const direction = scaleDelta > 0 ? meta.low : meta.high;
+  return {
+    scaleDelta,
+    similarity,
+    diverges,
+    suggestion: diverges
+      ? `Move ${meta.title.toLowerCase()} toward "${direction.toLowerCase()}" (reference: ${reference.label}).`
+      : '',
+  };
+};
+
+/**
+ * Compares a candidate voice (e.g. a TTS render) against a reference voice.
+ * @param {VoiceProfile} reference The voice to match.
+ * @param {VoiceProfile} candidate The voice being checked.
+ * @returns {VoiceComparison} Per-dimension differences and an overall 0-100 score.
+ */
+export const compareProfiles = (reference: VoiceProfile, candidate: VoiceProfile): VoiceComparison => {
+  const dimensions = {} as Record<VoiceDimensionKey, DimensionComparison>;
+  for (const { key } of VOICE_DIMENSIONS) {
+    dimensions[key] = compareDimension(key, reference.dimensions[key], candidate.dimensions[key]);
+  }
+  const mean = VOICE_DIMENSIONS.reduce((sum, { key }) => sum + dimensions[key].similarity, 0) / VOICE_DIMENSIONS.length;
+  return { dimensions, similarity: Math.round(mean * 100) };
+};
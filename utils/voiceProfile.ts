@@ -0,0 +1,164 @@
+import type { SpeakerProfile, SpeakerSegment, SpokenLanguage, VoiceDimension, VoiceDimensionKey, VoiceProfile } from '../types';
+
+/**
+ * Display metadata for each analyzed dimension, in the order they are shown.
+ * `low` and `high` describe the ends of the 0-10 scale.
+ */
+export const VOICE_DIMENSIONS: { key: VoiceDimensionKey; title: string; low: string; high: string }[] = [
+  { key: 'tone', title: 'Tone', low: 'Cool / reserved', high: 'Warm / engaging' },
+  { key: 'pitch', title: 'Pitch', low: 'Very low', high: 'Very high' },
+  { key: 'pace', title: 'Pace', low: 'Very slow', high: 'Very fast' },
+  { key: 'articulation', title: 'Articulation', low: 'Soft / mumbled', high: 'Crisp / precise' },
+  { key: 'timbre', title: 'Timbre', low: 'Dark / rich', high: 'Bright / thin' },
+  { key: 'emotion', title: 'Emotion', low: 'Subdued', high: 'Intense' },
+];
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseConfidence = (value: unknown): number =>
+  typeof value === 'number' && !Number.isNaN(value) ? clamp(value, 0, 1) : 0;
+
+const parseDimension = (key: VoiceDimensionKey, raw: unknown): VoiceDimension => {
+  if (!isRecord(raw)) {
+    throw new Error(`The analysis is missing the "${key}" characteristic.`);
+  }
+  const { label, scale, confidence, notes } = raw;
+  if (typeof label !== 'string' || !label.trim()) {
+    throw new Error(`The "${key}" characteristic has no label.`);
+  }
+  if (typeof scale !== 'number' || Number.isNaN(scale)) {
+    throw new Error(`The "${key}" characteristic has no numeric scale.`);
+  }
+  return {
+    label: label.trim(),
+    scale: clamp(scale, 0, 10),
+    confidence: parseConfidence(confidence),
+    notes: typeof notes === 'string' ? notes.trim() : '',
+  };
+};
+
+/**
+ * Reads the detected language, if the response has a usable one. It is
+ * optional, so older profiles and backends that skip it still parse.
+ */
+const parseSpokenLanguage = (raw: unknown): SpokenLanguage | undefined => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+    return undefined;
+  }
+  const accent = typeof raw.accent === 'string' ? raw.accent.trim() : '';
+  return {
+    name: raw.name.trim(),
+    code: typeof raw.code === 'string' ? raw.code.trim() : '',
+    confidence: parseConfidence(raw.confidence),
+    accent,
+    accentConfidence: accent ? parseConfidence(raw.accentConfidence) : 0,
+  };
+};
+
+/**
+ * Validates an untrusted value (typically parsed model output) and normalizes it
+ * into a VoiceProfile. Out-of-range numbers are clamped; missing required fields throw.
+ * @param {unknown} raw The value to validate.
+ * @returns {VoiceProfile} The validated profile.
+ */
+export const parseVoiceProfile = (raw: unknown): VoiceProfile => {
+  if (!isRecord(raw) || !isRecord(raw.dimensions)) {
+    throw new Error('The analysis response was not a valid voice profile.');
+  }
+  const rawDimensions = raw.dimensions;
+  const dimensions = {} as Record<VoiceDimensionKey, VoiceDimension>;
+  for (const { key } of VOICE_DIMENSIONS) {
+    dimensions[key] = parseDimension(key, rawDimensions[key]);
+  }
+
+  if (typeof raw.ttsPrompt !== 'string' || !raw.ttsPrompt.trim()) {
+    throw new Error('The analysis response did not include a TTS prompt.');
+  }
+
+  const confidence = typeof raw.confidence === 'number' && !Number.isNaN(raw.confidence)
+    ? clamp(raw.confidence, 0, 1)
+    : VOICE_DIMENSIONS.reduce((sum, { key }) => sum + dimensions[key].confidence, 0) / VOICE_DIMENSIONS.length;
+
+  const language = parseSpokenLanguage(raw.language);
+  return {
+    ...(language && { language }),
+    dimensions,
+    confidence,
+    ttsPrompt: raw.ttsPrompt.trim(),
+  };
+};
+
+/**
+ * Summarizes a detected language for display, e.g. "Spanish (es-MX), Mexican accent".
+ */
+export const describeSpokenLanguage = ({ name, code, accent }: SpokenLanguage): string =>
+  `${name}${code ? ` (${code})` : ''}${accent ? `, ${accent} accent` : ''}`;
+
+const parseSegment = (raw: unknown): SpeakerSegment | null => {
+  if (!isRecord(raw) || typeof raw.start !== 'number' || typeof raw.end !== 'number') {
+    return null;
+  }
+  const start = Math.max(0, raw.start);
+  return raw.end > start ? { start, end: raw.end } : null;
+};
+
+/**
+ * Validates speaker mode output and normalizes it into per-speaker profiles.
+ * Malformed segments are dropped and the rest sorted; a speaker without a
+ * valid profile fails the whole response, like a single-speaker analysis would.
+ * @param {unknown} raw The value to validate.
+ * @returns {SpeakerProfile[]} The speakers in order of first appearance.
+ */
+export const parseSpeakerProfiles = (raw: unknown): SpeakerProfile[] => {
+  if (!isRecord(raw) || !Array.isArray(raw.speakers) || raw.speakers.length === 0) {
+    throw new Error('The analysis response did not list any speakers.');
+  }
+  const speakers = raw.speakers.map((speaker: unknown, index): SpeakerProfile => {
+    if (!isRecord(speaker)) {
+      throw new Error('The analysis response contained an invalid speaker.');
+    }
+    const segments = (Array.isArray(speaker.segments) ? speaker.segments : [])
+      .map(parseSegment)
+      .filter((segment): segment is SpeakerSegment => segment !== null)
+      .sort((a, b) => a.start - b.start);
+    return {
+      label: typeof speaker.label === 'string' && speaker.label.trim() ? speaker.label.trim() : `Speaker ${index + 1}`,
+      segments,
+      profile: parseVoiceProfile(speaker.profile),
+    };
+  });
+  return speakers.sort((a, b) => (a.segments[0]?.start ?? Infinity) - (b.segments[0]?.start ?? Infinity));
+};
+
+/**
+ * Decodes a JSON string body that may be cut off mid-escape.
+ */
+const decodePartialJsonString = (raw: string): string => {
+  const safe = raw.replace(/\\u[0-9a-fA-F]{0,3}$|\\$/, '');
+  try {
+    return JSON.parse(`"${safe}"`);
+  } catch {
+    return safe;
+  }
+};
+
+const JSON_STRING_BODY = '((?:[^"\\\\]|\\\\.)*)';
+
+/**
+ * Pulls whatever fields are already readable out of an incomplete streamed
+ * profile JSON, so the UI can show progress before the response is valid JSON.
+ * @param {string} text The raw JSON text received so far.
+ */
+export const parsePartialProfile = (text: string): { labels: Partial<Record<VoiceDimensionKey, string>>; ttsPrompt: string } => {
+  const labels: Partial<Record<VoiceDimensionKey, string>> = {};
+  for (const { key } of VOICE_DIMENSIONS) {
+    const match = text.match(new RegExp(`"${key}"\\s*:\\s*\\{\\s*"label"\\s*:\\s*"${JSON_STRING_BODY}"`));
+    if (match) labels[key] = decodePartialJsonString(match[1]);
+  }
+  // The prompt is streamed last and may still be open, so no closing quote is required.
+  const promptMatch = text.match(new RegExp(`"ttsPrompt"\\s*:\\s*"${JSON_STRING_BODY}`));
+  return { labels, ttsPrompt: promptMatch ? decodePartialJsonString(promptMatch[1]) : '' };
+};
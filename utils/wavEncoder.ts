@@ -0,0 +1,100 @@
+// Sample rate used when decoding clips for trimming; matches CD audio and common recordings.
+const TRIM_SAMPLE_RATE = 44100;
+
+const writeString = (view: DataView, offset: number, value: string): void => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+const writeWavHeader = (view: DataView, dataSize: number, sampleRate: number, numberOfChannels: number, bytesPerSample: number): void => {
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numberOfChannels * bytesPerSample, true);
+  view.setUint16(32, numberOfChannels * bytesPerSample, true);
+  view.setUint16(34, 8 * bytesPerSample, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+};
+
+/**
+ * Encodes a region of an AudioBuffer as a 16-bit PCM WAV file.
+ * @param {AudioBuffer} buffer The decoded audio.
+ * @param {number} startSeconds Start of the region.
+ * @param {number} endSeconds End of the region.
+ * @returns {Blob} The WAV data with MIME type audio/wav.
+ */
+export const encodeWav = (buffer: AudioBuffer, startSeconds: number = 0, endSeconds: number = buffer.duration): Blob => {
+  const { numberOfChannels, sampleRate } = buffer;
+  const startFrame = Math.max(0, Math.floor(startSeconds * sampleRate));
+  const endFrame = Math.min(buffer.length, Math.ceil(endSeconds * sampleRate));
+  const frameCount = Math.max(0, endFrame - startFrame);
+  const bytesPerSample = 2;
+  const dataSize = frameCount * numberOfChannels * bytesPerSample;
+
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  writeWavHeader(view, dataSize, sampleRate, numberOfChannels, bytesPerSample);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let frame = startFrame; frame < endFrame; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+/**
+ * Wraps raw little-endian 16-bit PCM (as returned by speech APIs) in a WAV header.
+ * @param {Uint8Array} pcm The interleaved sample bytes.
+ * @param {number} sampleRate Samples per second.
+ * @param {number} numberOfChannels Channel count.
+ * @returns {Blob} The WAV data with MIME type audio/wav.
+ */
+export const pcm16ToWav = (pcm: Uint8Array, sampleRate: number, numberOfChannels: number = 1): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  writeWavHeader(header, pcm.byteLength, sampleRate, numberOfChannels, 2);
+  return new Blob([header, pcm], { type: 'audio/wav' });
+};
+
+/**
+ * Cuts a region out of an audio file and re-encodes it as WAV.
+ * @param {File} file The source audio file in any browser-decodable format.
+ * @param {number} startSeconds Start of the region to keep.
+ * @param {number} endSeconds End of the region to keep.
+ * @returns {Promise<File>} A new WAV file named after the source.
+ */
+export const trimAudioFile = async (file: File, startSeconds: number, endSeconds: number): Promise<File> => {
+  const decoded = await new OfflineAudioContext(1, 1, TRIM_SAMPLE_RATE).decodeAudioData(await file.arrayBuffer());
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([encodeWav(decoded, startSeconds, endSeconds)], `${baseName} (trimmed).wav`, { type: 'audio/wav' });
+};
+
+/**
+ * Decodes an audio file and re-encodes it as mono WAV at the given sample rate.
+ * Channels are averaged by the Web Audio downmix; resampling happens during decoding.
+ * @param {File} file The source audio file in any browser-decodable format.
+ * @param {number} sampleRate The target sample rate.
+ * @returns {Promise<File>} A new WAV file named after the source.
+ */
+export const downmixAudioFile = async (file: File, sampleRate: number): Promise<File> => {
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await file.arrayBuffer());
+  const context = new OfflineAudioContext(1, decoded.length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start();
+  const mono = await context.startRendering();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([encodeWav(mono)], `${baseName}.wav`, { type: 'audio/wav' });
+};